@@ -46,6 +46,8 @@ export default [
         Headers: "readonly",
         FormData: "readonly",
         URL: "readonly",
+        AbortController: "readonly",
+        AbortSignal: "readonly",
         RequestInfo: "readonly",
         RequestInit: "readonly",
       },
@@ -1,13 +1,36 @@
-import { Notice, Plugin, MarkdownView } from 'obsidian';
+import { Notice, Plugin, MarkdownView, TFile, TFolder } from 'obsidian';
 import { 
   AnyTypeSettings, 
   DEFAULT_SETTINGS, 
   SyncStatus,
+  SyncResult,
   AnyTypeObject,
   Logger,
   SimpleEncoding,
   AnyTypeApiService,
+  AnyTypeApiError,
   SyncService,
+  SyncLedger,
+  SyncLedgerData,
+  SnapshotService,
+  AutoSyncService,
+  LocalDeletionService,
+  OperationsLog,
+  AttachmentService,
+  ObjectNameCache,
+  SyncPlan,
+  SyncPlanItem,
+  SyncPlanOperation,
+  ReconciledNote,
+  LinkIssue,
+  RemoteDeletionPolicy,
+  SyncPreviewModal,
+  LocalDeletionModal,
+  PushSelectionModal,
+  PushSelection,
+  SyncProgressModal,
+  SyncProgress,
+  OperationCancelledError,
   AnyTypeAuthService,
   AnyTypeSettingsTab
 } from './src';
@@ -21,22 +44,90 @@ export default class AnyTypeSyncPlugin extends Plugin {
   logger: Logger;
   apiService: AnyTypeApiService;
   syncService: SyncService;
+  syncLedger: SyncLedger;
+  snapshotService: SnapshotService;
+  autoSyncService: AutoSyncService;
+  operationsLog: OperationsLog;
+  attachmentService: AttachmentService;
+  objectNameCache: ObjectNameCache;
+  localDeletionService: LocalDeletionService;
   authService: AnyTypeAuthService;
   
   // Ribbon button references
   private syncRibbonIcon: HTMLElement | null = null;
   private importRibbonIcon: HTMLElement | null = null;
 
+  // Periodic pull state
+  private pullTimer: ReturnType<typeof setInterval> | null = null;
+  private isPulling = false;
+
   async onload() {
     this.logger = new Logger();
     this.logger.info('Loading Anytype Sync Plugin');
 
-    await this.loadSettings();
+    const legacySyncLedger = await this.loadSettings();
     
     // Initialize services
     this.authService = new AnyTypeAuthService();
-    this.apiService = ApiServiceFactory.create(this.settings, this.logger);
-    this.syncService = new SyncService(this.app, this.apiService, this.logger);
+    // The sync ledger, snapshots and caches live in the plugin directory, outside the notes and settings
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.syncLedger = new SyncLedger(this.app, this.logger, pluginDir);
+    if (await this.syncLedger.load(legacySyncLedger)) {
+      await this.saveSettings();
+    }
+    this.objectNameCache = new ObjectNameCache(this.app, this.logger, pluginDir, () => this.settings);
+    this.apiService = ApiServiceFactory.create(this.settings, this.logger, this.objectNameCache);
+    this.snapshotService = new SnapshotService(this.app, this.logger, this.syncLedger, pluginDir, () => this.settings);
+    this.attachmentService = new AttachmentService(this.app, this.apiService, this.snapshotService, this.logger, pluginDir, () => this.settings);
+    this.syncService = new SyncService(this.app, this.apiService, this.logger, this.syncLedger, this.snapshotService, this.attachmentService);
+    this.autoSyncService = new AutoSyncService(this.app, this.syncService, this.snapshotService, this.logger, {
+      getSettings: () => this.settings,
+      updateStatus: (text?: string) => this.updateStatusBar(text),
+      onSyncComplete: (result) => this.handleAutoSyncComplete(result)
+    });
+    this.operationsLog = new OperationsLog(this.app, this.logger, pluginDir);
+    this.localDeletionService = new LocalDeletionService(this.apiService, this.syncLedger, this.operationsLog, this.logger, {
+      getSettings: () => this.settings,
+      confirm: (noteName: string) => new Promise(resolve => new LocalDeletionModal(this.app, noteName, this.settings.localDeletionAction, resolve).open()),
+      updateStatus: (text?: string) => this.updateStatusBar(text)
+    });
+
+    // Keep sync ledger paths in step with vault renames
+    this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+      if (this.syncLedger.updatePath(oldPath, file.path)) {
+        this.syncLedger.persist();
+      }
+      if (!(file instanceof TFile)) {
+        this.autoSyncService.handleRename(file, oldPath);
+        return;
+      }
+
+      // Started before anything is awaited: renames made by the plugin are only recognizable while they run
+      const renamePush = this.pushNoteRename(file, oldPath);
+      try {
+        await this.attachmentService.updatePath(oldPath, file.path);
+      } catch (error) {
+        this.logger.error(`Failed to update attachment index for ${file.path}: ${error.message}`);
+      }
+      // A rename already pushed by "Sync renames" needs no auto sync push of its own
+      this.autoSyncService.handleRename(file, oldPath, await renamePush);
+    }));
+
+    // Auto sync watches edits of linked notes (opt-in, see settings)
+    this.registerEvent(this.app.vault.on('modify', (file) => this.autoSyncService.handleModify(file)));
+    this.registerEvent(this.app.vault.on('delete', (file) => this.autoSyncService.handleDelete(file)));
+
+    // Push unlinked notes of a folder from the file explorer
+    this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+      if (!(file instanceof TFolder)) return;
+      menu.addItem(item => item
+        .setTitle('Push unlinked notes to Anytype')
+        .setIcon('upload')
+        .onClick(() => this.pushUnlinkedNotes({ kind: 'folder', path: file.path })));
+    }));
+
+    // Archive the Anytype object when a linked note is deleted (opt-in, see settings)
+    this.registerEvent(this.app.metadataCache.on('deleted', (file, prevCache) => this.localDeletionService.handleDelete(file, prevCache)));
     
     // Initialize sync status
     this.syncStatus = {
@@ -58,6 +149,9 @@ export default class AnyTypeSyncPlugin extends Plugin {
     // Settings tab
     this.addSettingTab(new AnyTypeSettingsTab(this.app, this, this.logger));
 
+    // Periodic pull of Anytype edits (opt-in, see settings)
+    this.schedulePeriodicPull();
+
     // Test connection on startup if authenticated
     if (this.settings.isAuthenticated && this.settings.apiKey && this.settings.spaceId) {
       this.logger.info('Auto-testing connection on startup');
@@ -70,6 +164,12 @@ export default class AnyTypeSyncPlugin extends Plugin {
   onunload() {
     this.logger.info('Unloading Anytype Sync Plugin');
     
+    // Stop pending background pushes
+    this.autoSyncService?.stop();
+    this.stopPeriodicPull();
+    // Unloading does not wait, so a pending ledger write goes out now and reports its own failure
+    this.syncLedger?.flush().catch(error => this.logger.error(`Failed to write sync ledger on unload: ${error.message}`));
+    
     // Clean up ribbon buttons
     this.removeSyncRibbon();
     this.removeImportRibbon();
@@ -142,7 +242,13 @@ export default class AnyTypeSyncPlugin extends Plugin {
     return true;
   }
 
-  private getSafeErrorMessage(errorMessage: string, defaultMessage: string): string {
+  private getSafeErrorMessage(error: any, defaultMessage: string): string {
+    // API failures already say what went wrong and what to do about it
+    if (error instanceof AnyTypeApiError) {
+      return `❌ ${defaultMessage}: ${error.userMessage}`;
+    }
+
+    const errorMessage: string = error?.message || String(error);
     const safePatterns = [/no active note|not authenticated|connection failed|invalid.*(?:id|key)|note must have.*name|missing required|already exists/i];
     
     if (safePatterns.some(pattern => pattern.test(errorMessage))) {
@@ -200,6 +306,38 @@ export default class AnyTypeSyncPlugin extends Plugin {
         name: 'Sync All',
         callback: () => this.syncAllNotes()
       },
+      {
+        id: 'push-folder-to-anytype',
+        name: 'Push folder or tag to Anytype',
+        callback: () => new PushSelectionModal(this.app, (selection) => this.pushUnlinkedNotes(selection)).open()
+      },
+      {
+        id: 'pull-anytype-changes',
+        name: 'Pull changes from Anytype',
+        callback: () => this.pullRemoteChanges(true)
+      },
+      {
+        id: 'toggle-auto-sync-pause',
+        name: 'Pause/resume auto sync',
+        checkCallback: (checking: boolean) => {
+          if (!this.settings.autoSync) return false;
+          if (!checking) this.toggleAutoSyncPause();
+          return true;
+        }
+      },
+      
+      {
+        id: 'reconcile-anytype-deletions',
+        name: 'Check linked notes for objects deleted in Anytype',
+        callback: () => this.reconcileRemoteDeletions()
+      },
+
+      // Undo
+      {
+        id: 'undo-last-anytype-operation',
+        name: 'Undo last Anytype operation',
+        callback: () => this.undoLastOperation()
+      },
       
       // Connection Commands
       {
@@ -213,8 +351,12 @@ export default class AnyTypeSyncPlugin extends Plugin {
     this.logger.debug('Added simplified commands: Import, Smart Sync, Sync All, and Connection');
   }
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+  /**
+   * Load the settings; returns the sync ledger older versions stored with them, if any
+   */
+  async loadSettings(): Promise<SyncLedgerData | null> {
+    const { syncLedger, ...storedSettings } = (await this.loadData()) || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, storedSettings);
     
     this.logger?.setLogLevel(this.settings.logLevel);
     
@@ -237,6 +379,7 @@ export default class AnyTypeSyncPlugin extends Plugin {
       hasSpaceId: !!this.settings.spaceId,
       logLevel: this.settings.logLevel
     });
+    return syncLedger || null;
   }
 
   async saveSettings() {
@@ -265,7 +408,127 @@ export default class AnyTypeSyncPlugin extends Plugin {
     const status = this.isConnected ? 'Connected' : 'Disconnected';
     const lastSync = this.syncStatus.lastSync ? 
       ` | Last sync: ${this.syncStatus.lastSync.toLocaleTimeString()}` : '';
-    this.statusBarItem.setText(`Anytype: ${status}${lastSync}`);
+    const autoSync = this.settings.autoSync && this.autoSyncService?.isPaused ? ' | Auto-sync paused' : '';
+    this.statusBarItem.setText(`Anytype: ${status}${lastSync}${autoSync}`);
+  }
+
+  toggleAutoSyncPause() {
+    const paused = this.autoSyncService.togglePause();
+    new Notice(paused ? '⏸️ Anytype auto sync paused' : '▶️ Anytype auto sync resumed');
+    if (!paused && this.autoSyncService.pendingCount === 0) {
+      this.updateStatusBar();
+    }
+  }
+
+  private handleAutoSyncComplete(result: SyncResult) {
+    if (result.updated > 0) {
+      this.syncStatus.lastSync = new Date();
+    }
+    for (const path of result.linkedNotesCreated || []) {
+      this.logger.info(`Auto sync: created an Anytype object for linked note ${path}`);
+    }
+    for (const failure of result.linkedNotesFailed || []) {
+      this.logger.warn(`Auto sync: could not create an Anytype object for linked note ${failure.path}: ${failure.error}`);
+    }
+    for (const issue of result.linkIssues || []) {
+      this.logger.info(`Auto sync: [[${issue.link}]] in ${issue.sourcePath} was pushed as plain text (${issue.reason})`);
+    }
+
+    if (result.failed > 0 || result.conflicts) {
+      const conflictSummary = result.conflicts ? `, ${result.conflicts} conflicts` : '';
+      this.updateStatusBar(`Auto-sync: ${result.updated} pushed, ${result.failed} failed${conflictSummary}`);
+    } else {
+      this.updateStatusBar();
+    }
+  }
+
+  /**
+   * (Re)start the periodic pull timer from the current settings
+   */
+  schedulePeriodicPull() {
+    this.stopPeriodicPull();
+    if (!this.settings.periodicPull) return;
+
+    const intervalMinutes = Math.max(1, this.settings.pullInterval || 0);
+    this.pullTimer = setInterval(() => this.pullRemoteChanges(false), intervalMinutes * 60 * 1000);
+    this.logger.info(`Periodic pull scheduled every ${intervalMinutes} minutes`);
+  }
+
+  private stopPeriodicPull() {
+    if (this.pullTimer !== null) {
+      clearInterval(this.pullTimer);
+      this.pullTimer = null;
+    }
+  }
+
+  async pullRemoteChanges(manual: boolean) {
+    if (this.isPulling) {
+      if (manual) new Notice('Anytype pull already in progress');
+      return;
+    }
+
+    if (manual) {
+      if (!await this.ensureAuthenticated()) return;
+    } else if (!this.settings.isAuthenticated || !this.settings.apiKey || !this.settings.spaceId) {
+      this.logger.debug('Periodic pull: not authenticated or no space selected, skipping');
+      return;
+    }
+
+    this.isPulling = true;
+    try {
+      this.updateStatusBar('Pulling changes...');
+      const result = await this.snapshotService.run('Pull changes from Anytype', () => this.syncService.pullRemoteChanges(
+        this.settings.spaceId,
+        this.settings.apiKey,
+        {
+          skipSystemProperties: this.settings.skipSystemProperties,
+          updateStatusCallback: (status: string) => this.updateStatusBar(status),
+          objectTypes: this.settings.syncObjectTypes,
+          safeImport: this.settings.safeImport,
+          importFolder: this.settings.importFolder
+        }
+      ));
+
+      if (result.created + result.updated > 0) {
+        this.syncStatus.lastSync = new Date();
+      }
+      this.updateStatusBar();
+
+      const conflictSummary = result.conflicts ? `, ⚠️ ${result.conflicts} conflicts (see .conflict.md files)` : '';
+      const summary = `Pull complete: ${result.created} created, ${result.updated} updated, ${result.failed} failed${conflictSummary}`;
+      if (manual) {
+        new Notice(summary, result.conflicts ? 12000 : undefined);
+      } else if (result.failed > 0 || result.conflicts) {
+        this.updateStatusBar(summary);
+      }
+
+    } catch (error) {
+      this.logger.error(`Pull from Anytype failed: ${error.message}`);
+      if (manual) {
+        new Notice(this.getSafeErrorMessage(error, 'Pull failed'));
+      }
+      this.updateStatusBar(manual ? undefined : 'Pull failed');
+    } finally {
+      this.isPulling = false;
+    }
+  }
+
+  /**
+   * Rename the Anytype object of a linked note right after the note is renamed (see settings)
+   */
+  private async pushNoteRename(file: TFile, oldPath: string): Promise<boolean> {
+    if (!this.settings.syncRenames || !this.settings.isAuthenticated || !this.settings.apiKey) return false;
+
+    try {
+      if (await this.syncService.pushNoteRename(file, oldPath, this.settings.apiKey)) {
+        this.updateStatusBar(`Renamed "${file.basename}" in Anytype`);
+        return true;
+      }
+    } catch (error) {
+      this.logger.error(`Renaming Anytype object for ${file.path} failed: ${error.message}`);
+      new Notice(this.getSafeErrorMessage(error, `Renaming "${file.basename}" in Anytype failed`));
+    }
+    return false;
   }
 
   async authenticateWithApiKey(apiKey: string): Promise<boolean> {
@@ -334,7 +597,7 @@ export default class AnyTypeSyncPlugin extends Plugin {
     } catch (error) {
       this.isConnected = false;
       this.logger.error(`Connection test failed: ${error.message}`);
-      const userMessage = this.getSafeErrorMessage(error.message, 'Failed to connect to Anytype');
+      const userMessage = this.getSafeErrorMessage(error, 'Failed to connect to Anytype');
       new Notice(userMessage);
       this.updateStatusBar();
       return false;
@@ -347,21 +610,29 @@ export default class AnyTypeSyncPlugin extends Plugin {
     try {
       this.updateStatusBar('Smart syncing...');
       
-      const result = await this.syncService.smartSync(
+      const result = await this.snapshotService.run('Smart Sync', () => this.syncService.smartSync(
         this.settings.spaceId,
         this.settings.apiKey,
         {
           skipSystemProperties: this.settings.skipSystemProperties,
-          updateStatusCallback: (status: string) => this.updateStatusBar(status)
+          updateStatusCallback: (status: string) => this.updateStatusBar(status),
+          pushNoteBody: this.settings.pushNoteBody,
+          safeImport: this.settings.safeImport,
+          linkedNotesDepth: this.getLinkedNotesDepth()
         }
-      );
+      ));
 
       this.syncStatus.lastSync = new Date();
       this.updateStatusBar();
       
+      const linkSummary = this.formatLinkedNotes(result.linkedNotesCreated, result.linkedNotesFailed) + this.formatLinkIssues(result.linkIssues);
       if (result.action === 'create') {
         const createdObject = result.result as AnyTypeObject;
-        new Notice(`✅ Note created in Anytype as object ${createdObject.id}`);
+        new Notice(`✅ Note created in Anytype as object ${createdObject.id}${linkSummary}`, linkSummary ? 10000 : undefined);
+      } else if (result.conflicted) {
+        new Notice(`⚠️ Note synced with conflicts - Obsidian values were kept, see the .conflict.md file next to the note${linkSummary}`, 10000);
+      } else if (linkSummary) {
+        new Notice(`✅ Note synced with Anytype${linkSummary}`, 10000);
       } else {
         new Notice('✅ Note synced with Anytype');
       }
@@ -369,13 +640,67 @@ export default class AnyTypeSyncPlugin extends Plugin {
     } catch (error) {
       this.logger.error(`Smart sync failed: ${error.message}`);
       // Don't expose detailed error messages to user for security
-      const userMessage = this.getSafeErrorMessage(error.message, 'Smart sync failed');
+      const userMessage = this.getSafeErrorMessage(error, 'Smart sync failed');
       new Notice(userMessage);
       this.updateStatusBar();
     }
   }
 
 
+  /**
+   * Create Anytype objects for every unlinked note in a folder or carrying a tag
+   */
+  async pushUnlinkedNotes(selection: PushSelection) {
+    if (!await this.ensureAuthenticated()) return;
+
+    const label = selection.kind === 'folder' ? `"${selection.path}"` : selection.tag;
+    const files = this.syncService.getUnlinkedNotes(selection);
+    if (files.length === 0) {
+      new Notice(`No unlinked notes in ${label}`);
+      return;
+    }
+
+    try {
+      this.updateStatusBar(`Pushing ${files.length} notes...`);
+      
+      const result = await this.snapshotService.run('Push notes to Anytype', () => this.syncService.pushUnlinkedNotes(
+        files,
+        this.settings.spaceId,
+        this.settings.apiKey,
+        {
+          skipSystemProperties: this.settings.skipSystemProperties,
+          updateStatusCallback: (status: string) => this.updateStatusBar(status),
+          folderTypeMapping: this.settings.folderTypeMapping,
+          linkedNotesDepth: this.getLinkedNotesDepth()
+        }
+      ));
+
+      this.syncStatus.lastSync = new Date();
+      this.updateStatusBar();
+
+      const typeSummary = Object.entries(result.byType || {})
+        .filter(([, stats]) => stats.created > 0)
+        .map(([type, stats]) => `${stats.created} ${type}`)
+        .join(', ');
+      let summaryMessage = `✅ Pushed ${label} to Anytype: ${result.created} created${typeSummary ? ` (${typeSummary})` : ''}, ${result.failed} failed`;
+      if (result.skipped) summaryMessage += `, ${result.skipped} skipped`;
+
+      const failures = result.failures || [];
+      if (failures.length > 0) {
+        const shown = failures.slice(0, 5).map(failure => `• ${failure.path}`);
+        if (failures.length > shown.length) shown.push(`…and ${failures.length - shown.length} more`);
+        summaryMessage += `\n❌ Failed (see console):\n${shown.join('\n')}`;
+      }
+      summaryMessage += this.formatLinkedNotes(result.linkedNotesCreated, result.linkedNotesFailed) + this.formatLinkIssues(result.linkIssues);
+      new Notice(summaryMessage, 12000);
+
+    } catch (error) {
+      this.logger.error(`Push of ${label} failed: ${error.message}`);
+      new Notice(this.getSafeErrorMessage(error, 'Push to Anytype failed'));
+      this.updateStatusBar();
+    }
+  }
+
   async importFromAnyType() {
     if (!await this.ensureAuthenticated()) return;
 
@@ -385,10 +710,18 @@ export default class AnyTypeSyncPlugin extends Plugin {
       return;
     }
 
+    if (this.settings.previewBulkOperations) {
+      await this.previewBulkOperation('import');
+      return;
+    }
+
+    const progressModal = new SyncProgressModal(this.app, 'Importing from Anytype');
+    progressModal.open();
+
     try {
       this.updateStatusBar('Starting import...');
       
-      const result = await this.syncService.syncFromAnyType(
+      const result = await this.snapshotService.run('Import all objects from Anytype', () => this.syncService.syncFromAnyType(
         this.settings.spaceId,
         this.settings.apiKey,
         {
@@ -397,9 +730,11 @@ export default class AnyTypeSyncPlugin extends Plugin {
           objectTypes,
           resolveObjectLinks: this.settings.resolveObjectLinks,
           safeImport: this.settings.safeImport,
-          importFolder: this.settings.importFolder
+          importFolder: this.settings.importFolder,
+          signal: progressModal.signal,
+          onProgress: progress => progressModal.update(progress)
         }
-      );
+      ));
 
       this.syncStatus.lastSync = new Date();
       this.updateStatusBar();
@@ -409,35 +744,62 @@ export default class AnyTypeSyncPlugin extends Plugin {
       new Notice(summaryMessage, 12000); // Show for 12 seconds for detailed statistics
 
     } catch (error) {
-      this.logger.error(`Import from Anytype failed: ${error.message}`);
-      const userMessage = this.getSafeErrorMessage(error.message, 'Import failed');
-      new Notice(userMessage);
+      if (error instanceof OperationCancelledError) {
+        this.notifyCancelled('Import', progressModal);
+      } else {
+        this.logger.error(`Import from Anytype failed: ${error.message}`);
+        new Notice(this.getSafeErrorMessage(error, 'Import failed'));
+      }
       this.updateStatusBar();
+    } finally {
+      progressModal.close();
     }
   }
 
   async syncAllNotes() {
     if (!await this.ensureAuthenticated()) return;
 
+    if (this.settings.previewBulkOperations) {
+      await this.previewBulkOperation('syncAll');
+      return;
+    }
+
+    const progressModal = new SyncProgressModal(this.app, 'Syncing all notes');
+    progressModal.open();
+
     try {
-      const result = await this.syncService.syncAllNotes(
+      const result = await this.snapshotService.run('Sync All', () => this.syncService.syncAllNotes(
         this.settings.spaceId, 
         this.settings.apiKey,
         {
           skipSystemProperties: this.settings.skipSystemProperties,
-          updateStatusCallback: (status: string) => this.updateStatusBar(status)
+          updateStatusCallback: (status: string) => this.updateStatusBar(status),
+          safeImport: this.settings.safeImport,
+          importFolder: this.settings.importFolder,
+          incremental: this.settings.incrementalSync,
+          pushNoteBody: this.settings.pushNoteBody,
+          linkedNotesDepth: this.getLinkedNotesDepth(),
+          signal: progressModal.signal,
+          onProgress: progress => progressModal.update(progress)
         }
-      );
+      ));
 
       this.syncStatus.lastSync = new Date();
       this.updateStatusBar();
-      new Notice(`Sync complete: ${result.updated} synced, ${result.failed} failed, ${result.skipped || 0} skipped`);
+      const conflictSummary = result.conflicts ? `, ⚠️ ${result.conflicts} conflicts (see .conflict.md files)` : '';
+      const linkSummary = this.formatLinkedNotes(result.linkedNotesCreated, result.linkedNotesFailed) + this.formatLinkIssues(result.linkIssues);
+      new Notice(`Sync complete: ${result.updated} pushed, ${result.pulled || 0} pulled, ${result.unchanged || 0} unchanged, ${result.failed} failed, ${result.skipped || 0} skipped${conflictSummary}${linkSummary}`, result.conflicts || linkSummary ? 12000 : undefined);
 
     } catch (error) {
-      this.logger.error(`Sync all failed: ${error.message}`);
-      const userMessage = this.getSafeErrorMessage(error.message, 'Sync all failed');
-      new Notice(userMessage);
+      if (error instanceof OperationCancelledError) {
+        this.notifyCancelled('Sync all', progressModal);
+      } else {
+        this.logger.error(`Sync all failed: ${error.message}`);
+        new Notice(this.getSafeErrorMessage(error, 'Sync all failed'));
+      }
       this.updateStatusBar();
+    } finally {
+      progressModal.close();
     }
   }
 
@@ -447,7 +809,7 @@ export default class AnyTypeSyncPlugin extends Plugin {
     try {
       this.updateStatusBar('Importing current note...');
       
-      const result = await this.syncService.importCurrentNote(
+      const result = await this.snapshotService.run('Import current note', () => this.syncService.importCurrentNote(
         this.settings.spaceId,
         this.settings.apiKey,
         {
@@ -456,7 +818,7 @@ export default class AnyTypeSyncPlugin extends Plugin {
           safeImport: this.settings.safeImport,
           importFolder: this.settings.importFolder
         }
-      );
+      ));
 
       this.updateStatusBar();
       
@@ -469,7 +831,7 @@ export default class AnyTypeSyncPlugin extends Plugin {
 
     } catch (error) {
       this.logger.error(`Import current note failed: ${error.message}`);
-      const userMessage = this.getSafeErrorMessage(error.message, 'Import current note failed');
+      const userMessage = this.getSafeErrorMessage(error, 'Import current note failed');
       new Notice(userMessage);
       this.updateStatusBar();
     }
@@ -478,30 +840,263 @@ export default class AnyTypeSyncPlugin extends Plugin {
   async reImportExistingNotes() {
     if (!await this.ensureAuthenticated()) return;
 
+    if (this.settings.previewBulkOperations) {
+      await this.previewBulkOperation('reImport');
+      return;
+    }
+
+    const progressModal = new SyncProgressModal(this.app, 'Re-importing existing notes');
+    progressModal.open();
+
     try {
       this.updateStatusBar('Re-importing existing notes...');
       
-      const result = await this.syncService.reImportExistingNotes(
+      // Notes trashed because their object is gone must not be archived again
+      const result = await this.snapshotService.run('Re-import existing notes', () => this.localDeletionService.suppress(() => this.syncService.reImportExistingNotes(
         this.settings.spaceId,
         this.settings.apiKey,
         {
           skipSystemProperties: this.settings.skipSystemProperties,
           updateStatusCallback: (status: string) => this.updateStatusBar(status),
           safeImport: this.settings.safeImport,
-          importFolder: this.settings.importFolder
+          importFolder: this.settings.importFolder,
+          remoteDeletionPolicy: this.settings.remoteDeletionPolicy,
+          archiveFolder: this.settings.remoteDeletionArchiveFolder,
+          signal: progressModal.signal,
+          onProgress: progress => progressModal.update(progress)
         }
-      );
+      )));
 
       this.syncStatus.lastSync = new Date();
       this.updateStatusBar();
       
-      const summaryMessage = `✅ Re-import complete: ${result.successful} successful, ${result.failed} failed, ${result.skipped} skipped`;
+      const conflictSummary = result.conflicts > 0 ? `\n⚠️ ${result.conflicts} conflicts (see .conflict.md files)` : '';
+      const summaryMessage = `✅ Re-import complete: ${result.successful} successful, ${result.failed} failed, ${result.skipped} skipped${conflictSummary}${this.formatReconciledNotes(result.reconciled)}`;
       new Notice(summaryMessage, 12000);
 
     } catch (error) {
-      this.logger.error(`Re-import existing notes failed: ${error.message}`);
-      const userMessage = this.getSafeErrorMessage(error.message, 'Re-import existing notes failed');
-      new Notice(userMessage);
+      if (error instanceof OperationCancelledError) {
+        this.notifyCancelled('Re-import', progressModal);
+      } else {
+        this.logger.error(`Re-import existing notes failed: ${error.message}`);
+        new Notice(this.getSafeErrorMessage(error, 'Re-import existing notes failed'));
+      }
+      this.updateStatusBar();
+    } finally {
+      progressModal.close();
+    }
+  }
+
+  /**
+   * Report a bulk operation cancelled from its progress modal, with what it finished before stopping
+   */
+  private notifyCancelled(operation: string, progressModal: SyncProgressModal) {
+    const summary = progressModal.getSummary();
+    new Notice(`⏹️ ${operation} cancelled. Notes processed before cancelling were kept${summary ? `: ${summary}` : ''}`, 8000);
+  }
+
+  /**
+   * Dry run of a bulk operation: compute the plan, let the user review it and apply all or part of it
+   */
+  private async previewBulkOperation(operation: SyncPlanOperation) {
+    const progressModal = new SyncProgressModal(this.app, 'Preparing preview');
+    progressModal.open();
+    const options = {
+      skipSystemProperties: this.settings.skipSystemProperties,
+      updateStatusCallback: (status: string) => this.updateStatusBar(status),
+      safeImport: this.settings.safeImport,
+      importFolder: this.settings.importFolder,
+      signal: progressModal.signal,
+      onProgress: (progress: SyncProgress) => progressModal.update(progress)
+    };
+
+    let plan: SyncPlan;
+    try {
+      this.updateStatusBar('Preparing preview...');
+      if (operation === 'import') {
+        plan = await this.syncService.planSyncFromAnyType(this.settings.spaceId, this.settings.apiKey, {
+          ...options,
+          objectTypes: this.settings.syncObjectTypes,
+          resolveObjectLinks: this.settings.resolveObjectLinks
+        });
+      } else if (operation === 'syncAll') {
+        plan = await this.syncService.planSyncAllNotes(this.settings.spaceId, this.settings.apiKey, {
+          ...options,
+          incremental: this.settings.incrementalSync,
+          pushNoteBody: this.settings.pushNoteBody
+        });
+      } else {
+        plan = await this.syncService.planReImportExistingNotes(this.settings.spaceId, this.settings.apiKey, {
+          ...options,
+          remoteDeletionPolicy: this.settings.remoteDeletionPolicy,
+          archiveFolder: this.settings.remoteDeletionArchiveFolder
+        });
+      }
+      this.updateStatusBar();
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        new Notice('⏹️ Preview cancelled, nothing was changed');
+      } else {
+        this.logger.error(`Preview failed: ${error.message}`);
+        new Notice(this.getSafeErrorMessage(error, 'Preview failed'));
+      }
+      this.updateStatusBar();
+      return;
+    } finally {
+      progressModal.close();
+    }
+
+    new SyncPreviewModal(this.app, plan, (items) => this.applySyncPlan(items)).open();
+  }
+
+  private async applySyncPlan(items: SyncPlanItem[]) {
+    const progressModal = new SyncProgressModal(this.app, 'Applying previewed changes');
+    progressModal.open();
+
+    try {
+      // Notes trashed because their object is gone must not be archived again
+      const result = await this.snapshotService.run('Apply previewed changes', () => this.localDeletionService.suppress(() => this.syncService.applySyncPlan(items, this.settings.spaceId, this.settings.apiKey, {
+        skipSystemProperties: this.settings.skipSystemProperties,
+        updateStatusCallback: (status: string) => this.updateStatusBar(status),
+        safeImport: this.settings.safeImport,
+        importFolder: this.settings.importFolder,
+        pushNoteBody: this.settings.pushNoteBody,
+        signal: progressModal.signal,
+        onProgress: progress => progressModal.update(progress)
+      })));
+
+      this.syncStatus.lastSync = new Date();
+      this.updateStatusBar();
+      const conflictSummary = result.conflicts ? `, ⚠️ ${result.conflicts} conflicts (see .conflict.md files)` : '';
+      new Notice(`✅ Applied ${items.length} changes: ${result.created} created, ${result.pulled || 0} updated from Anytype, ${result.updated} pushed, ${result.failed} failed${conflictSummary}${this.formatLinkIssues(result.linkIssues)}${this.formatReconciledNotes(result.reconciled || [])}`, 12000);
+
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        this.notifyCancelled('Applying changes', progressModal);
+      } else {
+        this.logger.error(`Applying preview failed: ${error.message}`);
+        new Notice(this.getSafeErrorMessage(error, 'Applying changes failed'));
+      }
+      this.updateStatusBar();
+    } finally {
+      progressModal.close();
+    }
+  }
+
+  async reconcileRemoteDeletions() {
+    if (!await this.ensureAuthenticated()) return;
+
+    try {
+      this.updateStatusBar('Checking for deleted objects...');
+      const result = await this.snapshotService.run('Reconcile Anytype deletions', () => this.localDeletionService.suppress(() => this.syncService.reconcileRemoteDeletions(
+        this.settings.spaceId,
+        this.settings.apiKey,
+        {
+          updateStatusCallback: (status: string) => this.updateStatusBar(status),
+          remoteDeletionPolicy: this.settings.remoteDeletionPolicy,
+          archiveFolder: this.settings.remoteDeletionArchiveFolder
+        }
+      )));
+
+      this.updateStatusBar();
+      const failedSummary = result.failed > 0 ? `, ${result.failed} could not be checked` : '';
+      new Notice(`✅ Checked ${result.checked} linked notes${failedSummary}${this.formatReconciledNotes(result.reconciled) || '\nNo deleted or archived objects found'}`, 12000);
+
+    } catch (error) {
+      this.logger.error(`Reconciling Anytype deletions failed: ${error.message}`);
+      new Notice(this.getSafeErrorMessage(error, 'Checking for deleted objects failed'));
+      this.updateStatusBar();
+    }
+  }
+
+  /**
+   * Summary lines for notes whose Anytype object was deleted or archived
+   */
+  private formatReconciledNotes(reconciled: ReconciledNote[]): string {
+    if (reconciled.length === 0) return '';
+
+    const actionLabels: Record<RemoteDeletionPolicy, string> = {
+      leave: 'left as is',
+      mark: 'marked',
+      archive: 'moved to archive',
+      trash: 'moved to trash'
+    };
+    const lines = reconciled.slice(0, 10).map(note => `• ${note.name} (${note.status}, ${actionLabels[note.action]})`);
+    if (reconciled.length > lines.length) {
+      lines.push(`…and ${reconciled.length - lines.length} more (see console)`);
+    }
+    return `\n🗑️ ${reconciled.length} deleted or archived in Anytype:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Summary lines for unlinked notes that were pushed along because a pushed note links to them, and for those that failed
+   */
+  private formatLinkedNotes(paths: string[] | undefined, failures: { path: string; error: string }[] = []): string {
+    let summary = '';
+    if (paths && paths.length > 0) {
+      const lines = paths.slice(0, 5).map(path => `• ${path}`);
+      if (paths.length > lines.length) {
+        lines.push(`…and ${paths.length - lines.length} more (see console)`);
+      }
+      this.logger.info(`Created Anytype objects for linked notes: ${paths.join(', ')}`);
+      summary += `\n➕ ${paths.length} linked notes also pushed:\n${lines.join('\n')}`;
+    }
+    if (failures.length > 0) {
+      const lines = failures.slice(0, 5).map(failure => `• ${failure.path}`);
+      if (failures.length > lines.length) {
+        lines.push(`…and ${failures.length - lines.length} more`);
+      }
+      summary += `\n❌ ${failures.length} linked notes could not be pushed (see console):\n${lines.join('\n')}`;
+    }
+    return summary;
+  }
+
+  private getLinkedNotesDepth(): number {
+    return this.settings.pushLinkedNotes ? this.settings.linkedNotesDepth : 0;
+  }
+
+  /**
+   * Summary lines for wikilinks that were pushed as written because they did not resolve to one linked note
+   */
+  private formatLinkIssues(issues: LinkIssue[] | undefined): string {
+    if (!issues || issues.length === 0) return '';
+
+    const reasonLabels: Record<LinkIssue['reason'], string> = {
+      unresolved: 'no such note',
+      ambiguous: 'alias used by several notes',
+      unlinked: 'note not in Anytype'
+    };
+    for (const issue of issues) {
+      this.logger.info(`Link [[${issue.link}]] in ${issue.sourcePath} kept as wikilink: ${reasonLabels[issue.reason]}`);
+    }
+    const lines = issues.slice(0, 5).map(issue => `• [[${issue.link}]] (${reasonLabels[issue.reason]})`);
+    if (issues.length > lines.length) {
+      lines.push(`…and ${issues.length - lines.length} more (see console)`);
+    }
+    return `\n🔗 ${issues.length} links not converted:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Restore the notes changed by the most recent Anytype operation from its snapshot
+   */
+  async undoLastOperation() {
+    try {
+      this.updateStatusBar('Undoing last operation...');
+      // Notes trashed by undo were created by the undone operation, their objects stay in Anytype
+      const result = await this.snapshotService.exclusive('Undo', () => this.localDeletionService.suppress(() => this.snapshotService.undoLast()));
+      this.updateStatusBar();
+
+      if (!result) {
+        new Notice('No Anytype operation to undo');
+        return;
+      }
+
+      const failedSummary = result.failed > 0 ? `, ${result.failed} failed (see console)` : '';
+      new Notice(`↩️ Undid "${result.operation}": ${result.restored} notes restored, ${result.removed} created notes moved to trash${failedSummary}. Changes already sent to Anytype are not reverted.`, 10000);
+
+    } catch (error) {
+      this.logger.error(`Undo failed: ${error.message}`);
+      new Notice('❌ Undo failed. Check console for details.');
       this.updateStatusBar();
     }
   }
@@ -512,13 +1107,13 @@ export default class AnyTypeSyncPlugin extends Plugin {
     try {
       this.updateStatusBar('Deleting from Anytype...');
       
-      const result = await this.syncService.deleteCurrentNote(
+      const result = await this.snapshotService.run('Delete current note from Anytype', () => this.syncService.deleteCurrentNote(
         this.settings.spaceId,
         this.settings.apiKey,
         {
           updateStatusCallback: (status: string) => this.updateStatusBar(status)
         }
-      );
+      ));
 
       this.updateStatusBar();
       
@@ -530,7 +1125,7 @@ export default class AnyTypeSyncPlugin extends Plugin {
 
     } catch (error) {
       this.logger.error(`Delete current note from Anytype failed: ${error.message}`);
-      const userMessage = this.getSafeErrorMessage(error.message, 'Delete from Anytype failed');
+      const userMessage = this.getSafeErrorMessage(error, 'Delete from Anytype failed');
       new Notice(userMessage);
       this.updateStatusBar();
     }
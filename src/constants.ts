@@ -5,6 +5,8 @@
 // Core API settings that are used in multiple places
 export const ANYTYPE_API_URL = 'http://localhost:31009';
 export const ANYTYPE_API_VERSION = '2025-05-20';
+// Local gateway serving file and image content; markdown from the API links to it
+export const ANYTYPE_GATEWAY_URL = 'http://127.0.0.1:47800';
 
 // Content size limits (prevent memory issues)
 export const MAX_CONTENT_SIZE = 1000000; // 1MB
@@ -14,4 +16,14 @@ export const MAX_NOTE_SIZE = 10000000;   // 10MB
 export const AUTH_CODE_LENGTH = 4;
 
 // Pagination
-export const API_PAGE_SIZE = 100;
\ No newline at end of file
+export const API_PAGE_SIZE = 100;
+// Object fetches (and object name lookups) in flight at once during bulk imports
+export const DEFAULT_REQUEST_CONCURRENCY = 6;
+// Periodic pull - re-scan this far behind the last pull to absorb clock skew
+export const PULL_OVERLAP_MS = 60000;
+
+// Frontmatter key marking notes whose Anytype object was deleted or archived; such notes are no longer synced
+export const ANYTYPE_STATUS_KEY = 'anytype_status';
+
+// Operations log - oldest entries are dropped beyond this many
+export const MAX_OPERATIONS_LOG_ENTRIES = 1000;
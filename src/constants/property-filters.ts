@@ -39,6 +39,13 @@ export const READ_ONLY_PROPERTIES = [
   'focal_ratio'
 ] as const;
 
+/**
+ * Obsidian-specific frontmatter keys that are never sent to Anytype
+ */
+export const OBSIDIAN_ONLY_PROPERTIES = [
+  'aliases'
+] as const;
+
 /**
  * Property formats that are supported by the universal property sync mechanism
  * All Anytype property types are now supported with proper type conversion
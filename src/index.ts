@@ -9,6 +9,10 @@ export * from './services';
 
 // UI
 export { AnyTypeSettingsTab } from './ui/settings-tab';
+export { SyncPreviewModal } from './ui/sync-preview-modal';
+export { LocalDeletionModal } from './ui/local-deletion-modal';
+export { PushSelectionModal } from './ui/push-selection-modal';
+export { SyncProgressModal } from './ui/sync-progress-modal';
 
 // Utils
 export * from './utils';
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Logger } from '../utils/logger';
 import { AnyTypeSettings } from '../types';
 import { AnyTypeApiService } from './api-service';
+import { ObjectNameCache } from './object-name-cache';
 
 /**
  * Factory for creating the appropriate API service based on settings
@@ -9,9 +10,9 @@ export class ApiServiceFactory {
   /**
    * Create API service instance
    */
-  static create(settings: AnyTypeSettings, logger: Logger): AnyTypeApiService {
+  static create(settings: AnyTypeSettings, logger: Logger, nameCache?: ObjectNameCache): AnyTypeApiService {
     logger.info('Using legacy API service');
-    return new AnyTypeApiService(logger);
+    return new AnyTypeApiService(logger, settings.requestConcurrency, nameCache);
   }
 
   /**
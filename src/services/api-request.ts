@@ -0,0 +1,198 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { Logger } from '../utils/logger';
+import { OperationCancelledError } from '../utils/cancellation';
+
+export type AnyTypeApiErrorKind = 'unauthorized' | 'not_found' | 'rate_limited' | 'validation' | 'server' | 'network';
+
+/**
+ * A failed Anytype API request, classified by what went wrong
+ * `message` keeps the technical details for the console, `userMessage` says what to do about it
+ */
+export class AnyTypeApiError extends Error {
+  readonly kind: AnyTypeApiErrorKind;
+  // null when Anytype could not be reached at all
+  readonly status: number | null;
+  readonly operation: string;
+  // Error text returned by the API, or the network error
+  readonly detail: string;
+
+  constructor(kind: AnyTypeApiErrorKind, operation: string, status: number | null, detail: string) {
+    super(`${operation} failed${status !== null ? ` (${status})` : ''}: ${detail || 'Unknown error'}`);
+    this.name = 'AnyTypeApiError';
+    this.kind = kind;
+    this.operation = operation;
+    this.status = status;
+    this.detail = detail;
+  }
+
+  /**
+   * Transient failures that are worth sending the request again for
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'server' || this.kind === 'network';
+  }
+
+  /**
+   * Failures every following request would run into as well, so a batch should stop instead of skipping the item
+   */
+  get fatal(): boolean {
+    return this.kind === 'unauthorized' || this.kind === 'network';
+  }
+
+  get userMessage(): string {
+    switch (this.kind) {
+      case 'unauthorized':
+        return 'Anytype rejected the API key. Authenticate again in the plugin settings';
+      case 'not_found':
+        return `${this.operation}: not found in Anytype, it may have been deleted`;
+      case 'rate_limited':
+        return 'Anytype is receiving too many requests. Wait a moment and try again, or lower "Parallel requests"';
+      case 'validation':
+        return `Anytype rejected the request: ${this.detail || 'invalid data'}`;
+      case 'server':
+        return 'Anytype reported an internal error. Try again, or restart the Anytype app';
+      default:
+        return 'Cannot reach Anytype. Make sure the Anytype desktop app is running';
+    }
+  }
+
+  static fromResponse(operation: string, response: RequestUrlResponse): AnyTypeApiError {
+    const status = response.status;
+    let kind: AnyTypeApiErrorKind = 'validation';
+    if (status === 401 || status === 403) {
+      kind = 'unauthorized';
+    } else if (status === 404 || status === 410) {
+      kind = 'not_found';
+    } else if (status === 429) {
+      kind = 'rate_limited';
+    } else if (status >= 500) {
+      kind = 'server';
+    }
+    return new AnyTypeApiError(kind, operation, status, AnyTypeApiError.readDetail(response));
+  }
+
+  /**
+   * Error text of a response: the `message`/`error` field of a JSON body, else the raw text (shortened)
+   */
+  private static readDetail(response: RequestUrlResponse): string {
+    let text = '';
+    try {
+      text = (response.text || '').trim();
+      const body = JSON.parse(text);
+      const message = body?.message || body?.error?.message || body?.error;
+      if (typeof message === 'string' && message) {
+        return message;
+      }
+    } catch {
+      // Not JSON (or no text body), fall back to the raw text
+    }
+    return text.length > 300 ? `${text.substring(0, 300)}…` : text;
+  }
+}
+
+export interface ApiRequestOptions {
+  // What the request does, e.g. "List spaces"; used in errors and logs
+  operation: string;
+  // Safe to send again when it may already have reached Anytype; defaults to every method but POST
+  idempotent?: boolean;
+  // Statuses handed back to the caller instead of thrown, e.g. 404 for existence checks
+  acceptStatuses?: number[];
+  // Stops retrying once aborted; a request already sent still completes
+  signal?: AbortSignal;
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+/**
+ * The single place Anytype API requests go through
+ * Failed responses become `AnyTypeApiError`s; transient failures are retried with jittered exponential backoff
+ */
+export class ApiRequestClient {
+  private logger: Logger;
+  private retryPolicy: RetryPolicy;
+
+  constructor(logger: Logger, retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.logger = logger;
+    this.retryPolicy = retryPolicy;
+  }
+
+  async send(params: RequestUrlParam, options: ApiRequestOptions): Promise<RequestUrlResponse> {
+    const method = (params.method || 'GET').toUpperCase();
+    const idempotent = options.idempotent !== undefined ? options.idempotent : method !== 'POST';
+
+    for (let attempt = 0; ; attempt++) {
+      OperationCancelledError.throwIfAborted(options.signal);
+      let error: AnyTypeApiError;
+      let retryAfterMs: number | null = null;
+      try {
+        const response = await requestUrl({ ...params, throw: false });
+        if (response.status < 400 || (options.acceptStatuses || []).includes(response.status)) {
+          return response;
+        }
+        error = AnyTypeApiError.fromResponse(options.operation, response);
+        retryAfterMs = this.readRetryAfter(response);
+      } catch (requestError) {
+        error = new AnyTypeApiError('network', options.operation, null, requestError?.message || String(requestError));
+      }
+
+      if (attempt >= this.retryPolicy.retries || !this.shouldRetry(error, idempotent)) {
+        throw error;
+      }
+
+      const delayMs = retryAfterMs !== null ? Math.min(retryAfterMs, this.retryPolicy.maxDelayMs) : this.backoffDelay(attempt);
+      this.logger.warn(`${error.message} - retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 2} of ${this.retryPolicy.retries + 1})`);
+      await this.wait(delayMs, options.signal);
+    }
+  }
+
+  /**
+   * Sleep between attempts, cut short when the signal aborts
+   */
+  private wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Rate limiting and refused connections mean Anytype did not act on the request; anything else may have, so only
+   * requests that are safe to repeat are retried then
+   */
+  private shouldRetry(error: AnyTypeApiError, idempotent: boolean): boolean {
+    if (!error.retryable) {
+      return false;
+    }
+    if (error.kind === 'rate_limited' || (error.kind === 'network' && /ECONNREFUSED|ERR_CONNECTION_REFUSED/i.test(error.detail))) {
+      return true;
+    }
+    return idempotent;
+  }
+
+  /**
+   * Exponential backoff with jitter: half the capped delay, plus up to the other half at random
+   */
+  private backoffDelay(attempt: number): number {
+    const capped = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * Math.pow(2, attempt));
+    return capped / 2 + Math.random() * capped / 2;
+  }
+
+  private readRetryAfter(response: RequestUrlResponse): number | null {
+    const header = response.headers?.['retry-after'] || response.headers?.['Retry-After'];
+    const seconds = header ? parseFloat(header) : NaN;
+    return isNaN(seconds) ? null : seconds * 1000;
+  }
+}
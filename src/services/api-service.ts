@@ -1,17 +1,46 @@
-import { requestUrl } from 'obsidian';
-import { AnyTypeObject, CreateObjectRequest, AnyTypeSpace, ListSpacesResponse, AnyTypeObjectType, AnyTypeProperty, PropertyValue } from '../types';
+import { AnyTypeObject, AnyTypeObjectStatus, AnyTypeObjectSummary, CreateObjectRequest, AnyTypeSpace, ListSpacesResponse, AnyTypeObjectType, AnyTypeProperty, PropertyValue } from '../types';
 import { Logger } from '../utils/logger';
 import { Validation } from '../utils/validation';
-import { ANYTYPE_API_URL, ANYTYPE_API_VERSION, API_PAGE_SIZE, MAX_CONTENT_SIZE } from '../constants';
+import { RequestPool } from '../utils/request-pool';
+import { ObjectNameCache } from './object-name-cache';
+import { AnyTypeApiError, ApiRequestClient } from './api-request';
+import { OperationCancelledError } from '../utils/cancellation';
+import { ANYTYPE_API_URL, ANYTYPE_API_VERSION, API_PAGE_SIZE, DEFAULT_REQUEST_CONCURRENCY, MAX_CONTENT_SIZE } from '../constants';
 import { IMMUTABLE_KEY_PROPERTIES } from '../constants/property-filters';
 
 export class AnyTypeApiService {
   private baseUrl = ANYTYPE_API_URL;
   private apiVersion = ANYTYPE_API_VERSION;
   private logger: Logger;
-
-  constructor(logger: Logger) {
+  private client: ApiRequestClient;
+  // Full object fetches and the name lookups they make have separate pools, so fetches holding every slot cannot starve their lookups
+  private objectPool: RequestPool;
+  private namePool: RequestPool;
+  private nameCache: ObjectNameCache | null;
+  // Name lookups in flight by `spaceId/objectId`, so parallel fetches of objects sharing a relation fetch it once
+  private pendingNames: Map<string, Promise<string | null>> = new Map();
+
+  constructor(logger: Logger, requestConcurrency: number = DEFAULT_REQUEST_CONCURRENCY, nameCache?: ObjectNameCache) {
     this.logger = logger;
+    this.client = new ApiRequestClient(logger);
+    this.objectPool = new RequestPool(requestConcurrency);
+    this.namePool = new RequestPool(requestConcurrency);
+    this.nameCache = nameCache || null;
+  }
+
+  /**
+   * Name of an object from the name cache, without a request; null when it is not cached
+   */
+  getCachedObjectName(spaceId: string, objectId: string): string | null {
+    return this.nameCache ? this.nameCache.get(spaceId, objectId) : null;
+  }
+
+  /**
+   * How many object fetches (and, separately, object name lookups) run at the same time
+   */
+  setRequestConcurrency(requestConcurrency: number): void {
+    this.objectPool.setConcurrency(requestConcurrency);
+    this.namePool.setConcurrency(requestConcurrency);
   }
 
   /**
@@ -31,20 +60,14 @@ export class AnyTypeApiService {
 
       this.logger.time('List Spaces');
       
-      const response = await requestUrl({
+      const response = await this.client.send({
         url: `${this.baseUrl}/v1/spaces`,
         method: 'GET',
-        headers,
-        throw: false
-      });
+        headers
+      }, { operation: 'List spaces' });
 
       this.logger.timeEnd('List Spaces');
       this.logger.debug(`List spaces response status: ${response.status}`);
-      
-      if (response.status >= 400) {
-        this.logger.error(`List spaces API call failed (${response.status}): ${response.text}`);
-        throw new Error(`Failed to list spaces (${response.status}): ${response.text || 'Unknown error'}`);
-      }
 
       const result: ListSpacesResponse = response.json;
       if (!result || !result.data) {
@@ -67,21 +90,16 @@ export class AnyTypeApiService {
     try {
       this.logger.info(`Fetching object types for space: ${spaceId}`);
       
-      const response = await requestUrl({
+      const response = await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}/types`,
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${apiKey}`,
           'Anytype-Version': this.apiVersion
-        },
-        throw: false
-      });
+        }
+      }, { operation: 'List types' });
 
       this.logger.debug(`List types response: ${response.status}`);
-      
-      if (response.status >= 400) {
-        throw new Error(`Failed to list types (${response.status}): ${response.text}`);
-      }
 
       const result = response.json;
       if (!result?.data) {
@@ -106,19 +124,13 @@ export class AnyTypeApiService {
       
       const headers = this.createRequestHeaders(apiKey);
 
-      const response = await requestUrl({
+      const response = await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}`,
         method: 'GET',
-        headers,
-        throw: false
-      });
+        headers
+      }, { operation: 'Connection test' });
 
       this.logger.debug(`Connection test response status: ${response.status}`);
-      
-      if (response.status >= 400) {
-        this.logger.warn(`Connection test failed with status: ${response.status}`);
-        return false;
-      }
 
       const result = response.json;
       if (result && result.space) {
@@ -135,7 +147,22 @@ export class AnyTypeApiService {
     }
   }
 
-  async getAllObjects(spaceId: string, apiKey: string, objectTypes: string[] = ['page'], onObjectProcessed?: (object: AnyTypeObject) => Promise<void>, resolveObjectLinks: boolean = true): Promise<AnyTypeObject[]> {
+  /**
+   * Fetch every object of the given types with its markdown; full objects are fetched in parallel (see `setRequestConcurrency`)
+   * `onObjectProcessed` still gets the objects one at a time, in search order; objects that cannot be fetched go to
+   * `onObjectFailed` instead. Once `signal` aborts no more objects are fetched or processed and the call fails with an
+   * `OperationCancelledError`
+   */
+  async getAllObjects(
+    spaceId: string,
+    apiKey: string,
+    objectTypes: string[] = ['page'],
+    onObjectProcessed?: (object: AnyTypeObject) => Promise<void>,
+    resolveObjectLinks: boolean = true,
+    signal?: AbortSignal,
+    onObjectFailed?: (object: { id: string; name: string; type_key: string }, error: Error) => void
+  ): Promise<AnyTypeObject[]> {
+    const isCancelled = () => !!signal && signal.aborted;
     const allObjects: AnyTypeObject[] = [];
     let offset = 0;
     const limit = API_PAGE_SIZE;
@@ -143,6 +170,7 @@ export class AnyTypeApiService {
 
     this.logger.info(`Starting to fetch all ${objectTypes.join(', ')} objects from space ${spaceId}`);
     this.logger.time('Get All Objects');
+    await this.nameCache?.startRun();
 
     try {
       let hasMore = true;
@@ -159,20 +187,15 @@ export class AnyTypeApiService {
         };
 
         // First, get the list of objects
-        const searchResponse = await requestUrl({
+        const searchResponse = await this.client.send({
           url: `${this.baseUrl}/v1/spaces/${spaceId}/search?limit=${limit}&offset=${offset}`,
           method: 'POST',
           headers: searchHeaders,
           body: JSON.stringify({
             query: "",
             types: objectTypes
-          }),
-          throw: false
-        });
-
-        if (searchResponse.status >= 400) {
-          throw new Error(`Search API call failed (${searchResponse.status}): ${searchResponse.text}`);
-        }
+          })
+        }, { operation: 'Search objects', idempotent: true, signal });
 
         const searchResult = searchResponse.json;
         if (!searchResult || !searchResult.data) {
@@ -184,45 +207,58 @@ export class AnyTypeApiService {
         const objects = searchResult.data;
         this.logger.debug(`Retrieved ${objects.length} objects from search`);
 
-        // Now fetch full content for each object including markdown
-        for (let i = 0; i < objects.length; i++) {
-          const obj = objects[i];
-          // Process all objects of the requested types (not just 'page')
-          if (obj.type && objectTypes.includes(obj.type.key)) {
-            try {
-              // Fetch full object content with markdown format
-              const fullObject = await this.getObjectWithMarkdown(spaceId, obj.id, apiKey, resolveObjectLinks);
-              
-              let processedObject: AnyTypeObject;
-              if (fullObject) {
-                processedObject = fullObject;
-              } else {
-                // Fallback to basic object if full content fetch fails
-                this.logger.warn(`Failed to fetch full content for object ${obj.id}, using basic data`);
-                processedObject = await this.createBasicAnyTypeObject(obj, spaceId, apiKey, resolveObjectLinks);
-              }
-
-              // If callback provided, process object immediately (real-time)
-              if (onObjectProcessed) {
-                await onObjectProcessed(processedObject);
-                totalProcessed++;
-                this.logger.debug(`Real-time processed object ${totalProcessed}: ${processedObject.name}`);
-              } else {
-                // Legacy behavior: accumulate in memory
-                allObjects.push(processedObject);
-              }
-              
-              // Progress logging every 25 objects for real-time, 50 for batch
-              const logInterval = onObjectProcessed ? 25 : 50;
-              const currentCount = onObjectProcessed ? totalProcessed : allObjects.length;
-              if (currentCount % logInterval === 0) {
-                this.logger.info(`Processed ${currentCount} objects so far...`);
-              }
-              
-            } catch (error) {
-              this.logger.error(`Failed to process object ${obj.id}: ${error.message}`);
-              // Continue with next object instead of failing completely
+        // Names of every search hit are known before any relation to them is resolved
+        for (const obj of objects) {
+          this.cacheObjectName(spaceId, obj);
+        }
+
+        // Process all objects of the requested types (not just 'page')
+        const matchingObjects = objects.filter((obj: any) => obj.type && objectTypes.includes(obj.type.key));
+
+        // Now fetch full content for each object including markdown, several at a time
+        const fetches = this.objectPool.runAll(matchingObjects, async (obj: any): Promise<AnyTypeObject> => {
+          const fullObject = await this.getObjectWithMarkdown(spaceId, obj.id, apiKey, resolveObjectLinks, signal);
+          if (!fullObject) {
+            // Search results only carry a snippet of the body, never write a note from them
+            throw new Error(`Anytype returned no content for object ${obj.id}`);
+          }
+          return fullObject;
+        }, isCancelled);
+        // Fetches left behind by a cancellation must not surface as unhandled rejections
+        fetches.forEach(fetch => fetch.catch(() => undefined));
+
+        // Objects are handled in search order, while the ones after them are still being fetched
+        for (let i = 0; i < matchingObjects.length; i++) {
+          const obj = matchingObjects[i];
+          OperationCancelledError.throwIfAborted(signal);
+
+          try {
+            const processedObject = await fetches[i];
+
+            // If callback provided, process object immediately (real-time)
+            if (onObjectProcessed) {
+              await onObjectProcessed(processedObject);
+              totalProcessed++;
+              this.logger.debug(`Real-time processed object ${totalProcessed}: ${processedObject.name}`);
+            } else {
+              // Legacy behavior: accumulate in memory
+              allObjects.push(processedObject);
             }
+            
+            // Progress logging every 25 objects for real-time, 50 for batch
+            const logInterval = onObjectProcessed ? 25 : 50;
+            const currentCount = onObjectProcessed ? totalProcessed : allObjects.length;
+            if (currentCount % logInterval === 0) {
+              this.logger.info(`Processed ${currentCount} objects so far...`);
+            }
+            
+          } catch (error) {
+            if (isCancelled() || (error instanceof AnyTypeApiError && error.fatal)) {
+              throw error;
+            }
+            this.logger.error(`Failed to process object ${obj.id}: ${error.message}`);
+            onObjectFailed?.({ id: obj.id, name: this.sanitizeString(obj.name) || 'Untitled', type_key: obj.type?.key || 'page' }, error);
+            // Continue with next object instead of failing completely
           }
         }
 
@@ -244,26 +280,100 @@ export class AnyTypeApiService {
       return onObjectProcessed ? [] : allObjects;
 
     } catch (error) {
-      this.logger.error(`Failed to get all objects from space ${spaceId}: ${error.message}`);
+      if (!(error instanceof OperationCancelledError)) {
+        this.logger.error(`Failed to get all objects from space ${spaceId}: ${error.message}`);
+      }
       throw error;
+    } finally {
+      await this.nameCache?.endRun(`Fetched objects of space ${spaceId}`);
     }
   }
 
-  private async getObjectWithMarkdown(spaceId: string, objectId: string, apiKey: string, resolveObjectLinks: boolean = true): Promise<AnyTypeObject | null> {
+  /**
+   * List lightweight summaries of objects modified after `since` (all objects when null)
+   * Search results are sorted by last_modified_date, newest first, so paging stops at the first older object
+   */
+  async listObjectsModifiedSince(spaceId: string, apiKey: string, since: string | null, objectTypes?: string[], signal?: AbortSignal): Promise<AnyTypeObjectSummary[]> {
+    this.validateBasicInputs(spaceId, apiKey);
+
+    const summaries: AnyTypeObjectSummary[] = [];
+    const sinceTime = since ? Date.parse(since) : NaN;
+    const limit = API_PAGE_SIZE;
+    let offset = 0;
+    let hasMore = true;
+
+    this.logger.info(`Listing objects modified since ${since || 'the beginning'} in space ${spaceId}`);
+    this.logger.time('List Modified Objects');
+
+    try {
+      while (hasMore) {
+        const searchBody: Record<string, any> = {
+          query: '',
+          sort: { property_key: 'last_modified_date', direction: 'desc' }
+        };
+        if (objectTypes && objectTypes.length > 0) {
+          searchBody.types = objectTypes;
+        }
+
+        const response = await this.client.send({
+          url: `${this.baseUrl}/v1/spaces/${spaceId}/search?limit=${limit}&offset=${offset}`,
+          method: 'POST',
+          headers: this.createRequestHeaders(apiKey),
+          body: JSON.stringify(searchBody)
+        }, { operation: 'Search modified objects', idempotent: true, signal });
+
+        const objects = response.json?.data;
+        if (!Array.isArray(objects) || objects.length === 0) {
+          break;
+        }
+
+        for (const obj of objects) {
+          const modifiedProperty = Array.isArray(obj.properties)
+            ? obj.properties.find((prop: any) => prop && prop.key === 'last_modified_date')
+            : null;
+          const modifiedDate: string | null = modifiedProperty?.date || null;
+
+          if (!isNaN(sinceTime) && modifiedDate && Date.parse(modifiedDate) <= sinceTime) {
+            hasMore = false;
+            break;
+          }
+
+          this.cacheObjectName(spaceId, obj);
+          summaries.push({
+            id: obj.id,
+            name: this.sanitizeString(obj.name) || 'Untitled',
+            type_key: obj.type?.key || 'page',
+            space_id: spaceId,
+            last_modified_date: modifiedDate
+          });
+        }
+
+        if (response.json.pagination?.has_more === false || objects.length < limit) {
+          hasMore = false;
+        } else {
+          offset += limit;
+        }
+      }
+
+      this.logger.timeEnd('List Modified Objects');
+      this.logger.info(`Found ${summaries.length} objects modified since ${since || 'the beginning'}`);
+      return summaries;
+
+    } catch (error) {
+      this.logger.error(`Failed to list modified objects in space ${spaceId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async getObjectWithMarkdown(spaceId: string, objectId: string, apiKey: string, resolveObjectLinks: boolean = true, signal?: AbortSignal): Promise<AnyTypeObject | null> {
     try {
       const headers = this.createRequestHeaders(apiKey);
 
-      const response = await requestUrl({
+      const response = await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}?format=md`,
         method: 'GET',
-        headers,
-        throw: false
-      });
-
-      if (response.status >= 400) {
-        this.logger.warn(`Failed to fetch object ${objectId}: ${response.status}`);
-        return null;
-      }
+        headers
+      }, { operation: `Fetch object ${objectId}`, signal });
 
       const result = response.json;
       if (!result || !result.object) {
@@ -271,6 +381,7 @@ export class AnyTypeApiService {
       }
 
       const obj = result.object;
+      this.cacheObjectName(spaceId, obj);
       
       // Convert properties array to object with correct type handling
       const propertiesObj: Record<string, any> = {};
@@ -291,12 +402,15 @@ export class AnyTypeApiService {
         type_key: obj.type?.key || 'page',
         markdown: obj.markdown || '',
         space_id: spaceId,
-        properties: propertiesObj
+        properties: propertiesObj,
+        archived: !!obj.archived,
+        objectLinks: this.collectObjectLinks(obj.properties),
+        fileLinks: this.collectFileLinks(obj.properties)
       };
 
     } catch (error) {
       this.logger.error(`Error fetching object ${objectId} with markdown: ${error.message}`);
-      return null;
+      throw error;
     }
   }
 
@@ -380,38 +494,58 @@ export class AnyTypeApiService {
           return null;
       }
     } catch (error) {
+      // A failed request fails the whole object rather than importing it with the property missing
+      if (error instanceof AnyTypeApiError) {
+        throw error;
+      }
       this.logger.warn(`Error extracting property value for ${prop.key}: ${error.message}`);
       return null;
     }
   }
 
-  private async createBasicAnyTypeObject(obj: any, spaceId: string, apiKey: string, resolveObjectLinks: boolean = true): Promise<AnyTypeObject> {
-    const propertiesObj: Record<string, any> = {};
-    if (obj.properties && Array.isArray(obj.properties)) {
-      for (const prop of obj.properties) {
-        if (prop.key && this.isValidPropertyKey(prop.key)) {
-          const propertyValue = await this.extractPropertyValue(prop, spaceId, apiKey, resolveObjectLinks);
-          if (propertyValue !== null) {
-            propertiesObj[prop.key] = propertyValue;
-          }
-        }
+  /**
+   * Raw object ids of `objects` properties, kept next to the resolved wikilink values
+   */
+  private collectObjectLinks(properties: any): Record<string, string[]> {
+    const objectLinks: Record<string, string[]> = {};
+    if (!Array.isArray(properties)) {
+      return objectLinks;
+    }
+    for (const prop of properties) {
+      if (prop?.key && this.isValidPropertyKey(prop.key) && Array.isArray(prop.objects) && prop.objects.length > 0) {
+        objectLinks[prop.key] = prop.objects.filter((objectId: any) => objectId && typeof objectId === 'string');
       }
     }
+    return objectLinks;
+  }
 
-    return {
-      id: obj.id,
-      name: this.sanitizeString(obj.name) || 'Untitled',
-      type_key: obj.type?.key || 'page',
-      markdown: obj.snippet || '',
-      space_id: spaceId,
-      properties: propertiesObj
-    };
+  /**
+   * File ids of `files` properties by key
+   */
+  private collectFileLinks(properties: any): Record<string, string[]> {
+    const fileLinks: Record<string, string[]> = {};
+    if (!Array.isArray(properties)) {
+      return fileLinks;
+    }
+    for (const prop of properties) {
+      if (prop?.key && this.isValidPropertyKey(prop.key) && prop.format === 'files' && Array.isArray(prop.files) && prop.files.length > 0) {
+        fileLinks[prop.key] = prop.files.filter((fileId: any) => fileId && typeof fileId === 'string');
+      }
+    }
+    return fileLinks;
   }
 
   private isValidPropertyKey(key: string): boolean {
     return !!(key && typeof key === 'string' && key.length < 100);
   }
 
+  private cacheObjectName(spaceId: string, obj: any): void {
+    const name = this.sanitizeString(obj?.name);
+    if (this.nameCache && typeof obj?.id === 'string' && name) {
+      this.nameCache.set(spaceId, obj.id, name);
+    }
+  }
+
   private sanitizeString(str: string | undefined): string | undefined {
     if (!str || typeof str !== 'string') return str;
     // eslint-disable-next-line no-control-regex
@@ -469,23 +603,21 @@ export class AnyTypeApiService {
       this.logger.debug(`Complete request payload:`, requestPayload);
       this.logger.time(`Create Object: ${sanitizedName}`);
       
-      const response = await requestUrl({
-        url: `${this.baseUrl}/v1/spaces/${spaceId}/objects`,
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestPayload),
-        throw: false
-      });
-
-      this.logger.timeEnd(`Create Object: ${sanitizedName}`);
-      
-      if (response.status >= 400) {
-        const errorText = response.text || 'Unknown error';
-        this.logger.error(`Create object API call failed (${response.status}):`, errorText);
-        if (objectData.properties && objectData.properties.length > 0) {
+      let response;
+      try {
+        response = await this.client.send({
+          url: `${this.baseUrl}/v1/spaces/${spaceId}/objects`,
+          method: 'POST',
+          headers,
+          body: JSON.stringify(requestPayload)
+        }, { operation: `Create object "${sanitizedName}"` });
+      } catch (error) {
+        if (error instanceof AnyTypeApiError && error.kind === 'validation' && objectData.properties && objectData.properties.length > 0) {
           this.logger.error('Failed request included properties:', objectData.properties);
         }
-        throw new Error(`Create object API call failed (${response.status}): ${errorText}`);
+        throw error;
+      } finally {
+        this.logger.timeEnd(`Create Object: ${sanitizedName}`);
       }
 
       const result = response.json;
@@ -541,64 +673,175 @@ export class AnyTypeApiService {
     return sanitized;
   }
 
+  /**
+   * Whether an object still exists in Anytype; archived objects are still returned by the API, deleted ones are not
+   */
+  async getObjectStatus(spaceId: string, apiKey: string, objectId: string): Promise<AnyTypeObjectStatus> {
+    this.validateBasicInputs(spaceId, apiKey);
+    if (!objectId) throw new Error('Object ID required');
+
+    const response = await this.client.send({
+      url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}`,
+      method: 'GET',
+      headers: this.createRequestHeaders(apiKey)
+    }, { operation: `Check object ${objectId}`, acceptStatuses: [404, 410] });
+
+    if (response.status === 404 || response.status === 410) {
+      return 'deleted';
+    }
+
+    const object = response.json?.object;
+    if (!object) {
+      return 'deleted';
+    }
+    return object.archived ? 'archived' : 'active';
+  }
+
+  /**
+   * Name and extension of a file object, used to name its copy in the vault
+   */
+  async getFileInfo(spaceId: string, apiKey: string, fileId: string): Promise<{ name: string; extension: string } | null> {
+    this.validateBasicInputs(spaceId, apiKey);
+
+    let response;
+    try {
+      response = await this.client.send({
+        url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${fileId}`,
+        method: 'GET',
+        headers: this.createRequestHeaders(apiKey)
+      }, { operation: `Fetch file info ${fileId}` });
+    } catch (error) {
+      // A file object without info is still downloaded from the gateway, named after its id; other failures fail the download
+      if (error instanceof AnyTypeApiError && error.kind === 'not_found') {
+        this.logger.debug(`No file info for ${fileId}: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+
+    const object = response.json?.object;
+    if (!object) {
+      return null;
+    }
+    const extensionProperty = Array.isArray(object.properties) ? object.properties.find((prop: any) => prop?.key === 'file_ext') : null;
+    return {
+      name: this.sanitizeString(object.name) || fileId,
+      extension: typeof extensionProperty?.text === 'string' ? extensionProperty.text : ''
+    };
+  }
+
+  /**
+   * Download file content from the local Anytype gateway
+   */
+  async downloadFile(url: string): Promise<{ data: ArrayBuffer; contentType: string }> {
+    const response = await this.client.send({ url, method: 'GET' }, { operation: `Download ${url}` });
+    return { data: response.arrayBuffer, contentType: response.headers['content-type'] || '' };
+  }
+
+  /**
+   * Upload file content as a file object of the space; returns the file object id
+   */
+  async uploadFile(spaceId: string, apiKey: string, fileName: string, data: ArrayBuffer, contentType: string): Promise<string> {
+    this.validateBasicInputs(spaceId, apiKey);
+
+    const boundary = `----AnytypeSync${Date.now().toString(16)}`;
+    const head = Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${fileName.replace(/["\r\n]/g, '')}"\r\nContent-Type: ${contentType}\r\n\r\n`,
+      'utf8'
+    );
+    const tail = Buffer.from(`\r\n--${boundary}--\r\n`, 'utf8');
+    // Copied into a fresh Uint8Array, Buffer.concat may return a view into a larger shared pool
+    const body = new Uint8Array(Buffer.concat([head, Buffer.from(data), tail]));
+
+    const response = await this.client.send({
+      url: `${this.baseUrl}/v1/spaces/${spaceId}/files`,
+      method: 'POST',
+      headers: { ...this.createRequestHeaders(apiKey), 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body: body.buffer
+    }, { operation: `Upload ${fileName}` });
+
+    const result = response.json;
+    const fileId = result?.file?.id || result?.object?.id || result?.id;
+    if (typeof fileId !== 'string' || !fileId) {
+      throw new Error(`Upload of ${fileName} returned no file id`);
+    }
+    return fileId;
+  }
+
+  /**
+   * Name of an object: from the name cache, from a lookup of the same object already in flight, or fetched (and cached)
+   */
   private async getObjectName(spaceId: string, objectId: string, apiKey: string): Promise<string | null> {
+    const cachedName = this.getCachedObjectName(spaceId, objectId);
+    if (cachedName) {
+      return cachedName;
+    }
+
+    const key = `${spaceId}/${objectId}`;
+    let pending = this.pendingNames.get(key);
+    if (!pending) {
+      pending = this.fetchObjectName(spaceId, objectId, apiKey);
+      this.pendingNames.set(key, pending);
+      pending.then(() => this.pendingNames.delete(key), () => this.pendingNames.delete(key));
+    }
+    return pending;
+  }
+
+  private async fetchObjectName(spaceId: string, objectId: string, apiKey: string): Promise<string | null> {
     try {
       const headers = this.createRequestHeaders(apiKey);
 
-      const response = await requestUrl({
+      const response = await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}`,
         method: 'GET',
-        headers,
-        throw: false
-      });
-
-      if (response.status >= 400) {
-        this.logger.debug(`Failed to fetch object name for ${objectId}: ${response.status}`);
-        return null;
-      }
+        headers
+      }, { operation: `Fetch object name ${objectId}` });
 
       const result = response.json;
       if (result && result.object && result.object.name) {
         const objectName = this.sanitizeString(result.object.name) || null;
         this.logger.debug(`Fetched object name: ${objectName} (${objectId})`);
+        this.cacheObjectName(spaceId, result.object);
         return objectName;
       }
       
       return null;
     } catch (error) {
+      // A linked object that no longer exists has no name, the link keeps its id
+      if (error instanceof AnyTypeApiError && error.kind === 'not_found') {
+        this.logger.debug(`Linked object ${objectId} not found in Anytype`);
+        return null;
+      }
       this.logger.debug(`Error fetching object name for ${objectId}: ${error.message}`);
-      return null;
+      throw error;
     }
   }
 
   private async convertObjectIdsToWikilinks(objectIds: string[], spaceId: string, apiKey: string): Promise<string[]> {
-    const wikilinks: string[] = [];
-    
-    for (const objectId of objectIds) {
-      if (!objectId || typeof objectId !== 'string') {
-        continue;
-      }
-      
+    const validIds = objectIds.filter(objectId => objectId && typeof objectId === 'string');
+
+    // Names are looked up in parallel; the links keep the order of the ids
+    return Promise.all(this.namePool.runAll(validIds, async (objectId: string): Promise<string> => {
       try {
         const objectName = await this.getObjectName(spaceId, objectId, apiKey);
         if (objectName) {
-          wikilinks.push(`[[${objectName}]]`);
           this.logger.debug(`Converted object ID ${objectId} to wikilink [[${objectName}]]`);
-        } else {
-          // Fallback: use the object ID if we can't find the name
-          wikilinks.push(`[[${objectId}]]`);
-          this.logger.debug(`Could not resolve name for object ${objectId}, using ID as fallback`);
+          return `[[${objectName}]]`;
         }
+        // Fallback: use the object ID if we can't find the name
+        this.logger.debug(`Could not resolve name for object ${objectId}, using ID as fallback`);
+        return `[[${objectId}]]`;
       } catch (error) {
+        if (error instanceof AnyTypeApiError) {
+          throw error;
+        }
         this.logger.warn(`Error converting object ID ${objectId} to wikilink: ${error.message}`);
-        wikilinks.push(`[[${objectId}]]`);
+        return `[[${objectId}]]`;
       }
-    }
-    
-    return wikilinks;
+    }));
   }
 
-  async updateObjectWithProperties(spaceId: string, apiKey: string, objectId: string, objectData: { name?: string, properties?: PropertyValue[] }): Promise<AnyTypeObject | null> {
+  async updateObjectWithProperties(spaceId: string, apiKey: string, objectId: string, objectData: { name?: string, properties?: PropertyValue[], markdown?: string }): Promise<AnyTypeObject | null> {
     try {
       this.validateBasicInputs(spaceId, apiKey);
       if (!objectId) throw new Error('Object ID required');
@@ -620,6 +863,15 @@ export class AnyTypeApiService {
         this.logger.debug(`Properties being sent:`, objectData.properties);
       }
 
+      // Add body if provided (only honored by local API versions that accept markdown on update)
+      if (objectData.markdown !== undefined) {
+        if (objectData.markdown.length > MAX_CONTENT_SIZE) {
+          throw new Error(`Note body is too large to update (max ${MAX_CONTENT_SIZE / 1000000}MB)`);
+        }
+        requestPayload.markdown = this.sanitizeMarkdown(objectData.markdown);
+        this.logger.debug(`Updating object body (${requestPayload.markdown.length} chars)`);
+      }
+
       // Only proceed if we have something to update
       if (Object.keys(requestPayload).length === 0) {
         this.logger.warn('No update data provided for object');
@@ -631,23 +883,21 @@ export class AnyTypeApiService {
 
       this.logger.time(`Update Object: ${objectId}`);
 
-      const response = await requestUrl({
-        url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}`,
-        method: 'PATCH',
-        headers,
-        body: JSON.stringify(requestPayload),
-        throw: false
-      });
-
-      this.logger.timeEnd(`Update Object: ${objectId}`);
-
-      if (response.status >= 400) {
-        const errorText = response.text || 'Unknown error';
-        this.logger.error(`Update object API call failed (${response.status}):`, errorText);
-        if (objectData.properties && objectData.properties.length > 0) {
+      let response;
+      try {
+        response = await this.client.send({
+          url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}`,
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify(requestPayload)
+        }, { operation: `Update object ${objectId}` });
+      } catch (error) {
+        if (error instanceof AnyTypeApiError && error.kind === 'validation' && objectData.properties && objectData.properties.length > 0) {
           this.logger.error('Failed request included properties:', objectData.properties);
         }
-        throw new Error(`Update object API call failed (${response.status}): ${errorText}`);
+        throw error;
+      } finally {
+        this.logger.timeEnd(`Update Object: ${objectId}`);
       }
 
       const result = response.json;
@@ -710,21 +960,17 @@ export class AnyTypeApiService {
 
       this.logger.time('Delete Object');
 
-      const response = await requestUrl({
-        url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}`,
-        method: 'DELETE',
-        headers,
-        throw: false
-      });
-
-      this.logger.timeEnd('Delete Object');
-      this.logger.debug(`Delete object response status: ${response.status}`);
-
-      if (response.status >= 400) {
-        const errorText = response.text || 'Unknown error';
-        this.logger.error(`Delete object API call failed (${response.status}): ${errorText}`);
-        throw new Error(`Failed to delete object (${response.status}): ${errorText}`);
+      let response;
+      try {
+        response = await this.client.send({
+          url: `${this.baseUrl}/v1/spaces/${spaceId}/objects/${objectId}`,
+          method: 'DELETE',
+          headers
+        }, { operation: `Delete object ${objectId}` });
+      } finally {
+        this.logger.timeEnd('Delete Object');
       }
+      this.logger.debug(`Delete object response status: ${response.status}`);
 
       this.logger.info(`Successfully deleted object ${objectId} from space ${spaceId}`);
       return true;
@@ -760,24 +1006,22 @@ export class AnyTypeApiService {
 
       const headers = this.createRequestHeaders(apiKey);
 
-      const response = await requestUrl({
+      await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}/types/${typeId}`,
         method: 'PATCH',
         headers,
-        body: JSON.stringify(requestPayload),
-        throw: false
-      });
-
-      if (response.status >= 400) {
-        const errorText = response.text || 'Unknown error';
-        throw new Error(`Update type API call failed (${response.status}): ${errorText}`);
-      }
+        body: JSON.stringify(requestPayload)
+      }, { operation: `Update type ${typeId}` });
 
       this.logger.info(`Successfully updated type "${sanitizedKey}" (${typeId}) in space ${spaceId}`);
       return true;
 
     } catch (error) {
       this.logger.error(`Failed to update type ${typeId} in space ${spaceId}: ${error.message}`);
+      // API failures carry a message worth showing; only invalid input is reported as a plain false
+      if (error instanceof AnyTypeApiError) {
+        throw error;
+      }
       return false;
     }
   }
@@ -786,21 +1030,16 @@ export class AnyTypeApiService {
     try {
       this.logger.info(`Fetching properties for space: ${spaceId}`);
       
-      const response = await requestUrl({
+      const response = await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}/properties`,
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${apiKey}`,
           'Anytype-Version': this.apiVersion
-        },
-        throw: false
-      });
+        }
+      }, { operation: 'List properties' });
 
       this.logger.debug(`List properties response: ${response.status}`);
-      
-      if (response.status >= 400) {
-        throw new Error(`Failed to list properties (${response.status}): ${response.text}`);
-      }
 
       const result = response.json;
       if (!result?.data) {
@@ -848,24 +1087,21 @@ export class AnyTypeApiService {
 
       const headers = this.createRequestHeaders(apiKey);
 
-      const response = await requestUrl({
+      await this.client.send({
         url: `${this.baseUrl}/v1/spaces/${spaceId}/properties/${propertyId}`,
         method: 'PATCH',
         headers,
-        body: JSON.stringify(requestPayload),
-        throw: false
-      });
-
-      if (response.status >= 400) {
-        const errorText = response.text || 'Unknown error';
-        throw new Error(`Update property API call failed (${response.status}): ${errorText}`);
-      }
+        body: JSON.stringify(requestPayload)
+      }, { operation: `Update property ${propertyId}` });
 
       this.logger.info(`Successfully updated property (${propertyId}) in space ${spaceId}`);
       return true;
 
     } catch (error) {
       this.logger.error(`Failed to update property ${propertyId} in space ${spaceId}: ${error.message}`);
+      if (error instanceof AnyTypeApiError) {
+        throw error;
+      }
       return false;
     }
   }
@@ -881,20 +1117,17 @@ export class AnyTypeApiService {
 
       this.logger.time('List Tags');
       
-      const response = await requestUrl({
-        url: `${this.baseUrl}/v1/spaces/${spaceId}/properties/${propertyId}/tags`,
-        method: 'GET',
-        headers,
-        throw: false
-      });
-
-      this.logger.timeEnd('List Tags');
-      this.logger.debug(`List tags response status: ${response.status}`);
-      
-      if (response.status >= 400) {
-        this.logger.error(`List tags API call failed (${response.status}): ${response.text}`);
-        throw new Error(`Failed to list tags (${response.status}): ${response.text || 'Unknown error'}`);
+      let response;
+      try {
+        response = await this.client.send({
+          url: `${this.baseUrl}/v1/spaces/${spaceId}/properties/${propertyId}/tags`,
+          method: 'GET',
+          headers
+        }, { operation: `List tags of property ${propertyId}` });
+      } finally {
+        this.logger.timeEnd('List Tags');
       }
+      this.logger.debug(`List tags response status: ${response.status}`);
 
       const result = response.json;
       if (!result || !result.data) {
@@ -0,0 +1,302 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { AnyTypeObject, AnyTypeSettings, AttachmentIndexData, AttachmentIndexEntry } from '../types';
+import { Logger } from '../utils/logger';
+import { TextProcessor } from '../utils/text-processor';
+import { ANYTYPE_GATEWAY_URL } from '../constants';
+import { AnyTypeApiService } from './api-service';
+import { SnapshotService } from './snapshot-service';
+
+const ATTACHMENT_INDEX_VERSION = 1;
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+
+/**
+ * Vault copies of Anytype files and images, so imported notes embed them instead of linking to the local gateway,
+ * and Anytype copies of vault attachments, so pushed notes link to them instead of keeping `![[embeds]]`
+ * Every file is downloaded or uploaded once; the file id → vault path index is kept in the plugin directory
+ */
+export class AttachmentService {
+  private app: App;
+  private apiService: AnyTypeApiService;
+  private snapshotService: SnapshotService;
+  private logger: Logger;
+  private indexPath: string;
+  private getSettings: () => AnyTypeSettings;
+  private index: Map<string, AttachmentIndexEntry> | null = null;
+
+  constructor(app: App, apiService: AnyTypeApiService, snapshotService: SnapshotService, logger: Logger, pluginDir: string, getSettings: () => AnyTypeSettings) {
+    this.app = app;
+    this.apiService = apiService;
+    this.snapshotService = snapshotService;
+    this.logger = logger;
+    this.indexPath = normalizePath(`${pluginDir}/attachments.json`);
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * Download the files an object references (body images and file links, `files` properties) that are not in the vault yet
+   * Returns file id → vault path for every referenced file that is in the vault
+   */
+  async importAttachments(object: AnyTypeObject): Promise<Map<string, string>> {
+    const paths = new Map<string, string>();
+    const settings = this.getSettings();
+    if (!settings.downloadAttachments) {
+      return paths;
+    }
+
+    // Body references carry their gateway URL; `files` properties only ids, fetched from the same gateway
+    const gatewayFiles = TextProcessor.extractGatewayFiles(object.markdown || '');
+    const gatewayUrl = gatewayFiles.length > 0 ? new URL(gatewayFiles[0].url).origin : ANYTYPE_GATEWAY_URL;
+    const downloadUrls = new Map<string, string>();
+    for (const file of gatewayFiles) {
+      if (!downloadUrls.has(file.fileId)) {
+        // Without the query, e.g. `?width=`, the gateway serves the original instead of a resized copy
+        downloadUrls.set(file.fileId, file.url.split('?')[0]);
+      }
+    }
+    for (const fileIds of Object.values(object.fileLinks || {})) {
+      for (const fileId of fileIds) {
+        if (!downloadUrls.has(fileId)) {
+          downloadUrls.set(fileId, `${gatewayUrl}/file/${fileId}`);
+        }
+      }
+    }
+    if (downloadUrls.size === 0) {
+      return paths;
+    }
+
+    const index = await this.loadIndex();
+    let indexChanged = false;
+    for (const [fileId, url] of downloadUrls) {
+      const knownPath = index.get(fileId)?.path;
+      if (knownPath && this.app.vault.getAbstractFileByPath(knownPath) instanceof TFile) {
+        this.logger.debug(`Attachment ${fileId} already in the vault at ${knownPath}`);
+        paths.set(fileId, knownPath);
+        continue;
+      }
+
+      try {
+        const path = await this.download(object.space_id, fileId, url, settings);
+        index.set(fileId, { path, spaceId: object.space_id });
+        paths.set(fileId, path);
+        indexChanged = true;
+      } catch (error) {
+        this.logger.warn(`Failed to download attachment ${fileId} of "${object.name}": ${error.message}`);
+      }
+    }
+
+    if (indexChanged) {
+      await this.saveIndex();
+    }
+    return paths;
+  }
+
+  /**
+   * File id → vault path of every attachment downloaded or uploaded so far that is still in the vault, optionally of one space
+   */
+  async getKnownAttachments(spaceId?: string): Promise<Map<string, string>> {
+    const known = new Map<string, string>();
+    for (const [fileId, entry] of await this.loadIndex()) {
+      if ((!spaceId || entry.spaceId === spaceId) && this.app.vault.getAbstractFileByPath(entry.path) instanceof TFile) {
+        known.set(fileId, entry.path);
+      }
+    }
+    return known;
+  }
+
+  /**
+   * Replace embeds and links of vault attachments in a note body with links to their Anytype files:
+   * images become `![name](gateway/image/id)`, other files `[name](gateway/file/id)`, the form import turns back into embeds
+   * Attachments without an Anytype file in the space are uploaded when `upload` is set, otherwise kept as written
+   */
+  async exportAttachments(markdown: string, sourcePath: string, spaceId: string, upload: boolean): Promise<string> {
+    const settings = this.getSettings();
+    if (!settings.uploadAttachments || !markdown) {
+      return markdown;
+    }
+
+    const wikilinkPattern = /(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+    const attachments = new Map<string, TFile>();
+    let match: RegExpExecArray | null;
+    while ((match = wikilinkPattern.exec(markdown)) !== null) {
+      const file = this.resolveAttachment(match[2], sourcePath);
+      if (file) {
+        attachments.set(file.path, file);
+      }
+    }
+    if (attachments.size === 0) {
+      return markdown;
+    }
+
+    const fileIds = new Map<string, string>();
+    for (const file of attachments.values()) {
+      const fileId = upload ? await this.getOrUploadFileId(file, spaceId, settings) : await this.findFileId(file.path, spaceId);
+      if (fileId) {
+        fileIds.set(file.path, fileId);
+      }
+    }
+
+    return markdown.replace(wikilinkPattern, (link, embed, linkTarget, displayText) => {
+      const file = this.resolveAttachment(linkTarget, sourcePath);
+      const fileId = file ? fileIds.get(file.path) : undefined;
+      if (!file || !fileId) {
+        return link;
+      }
+
+      // Embed sizes (`![[image.png|300]]`) are not names
+      const name = displayText && !/^\d+(x\d+)?$/.test(displayText.trim()) ? displayText.trim() : file.name;
+      if (embed && IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+        return `![${name}](${ANYTYPE_GATEWAY_URL}/image/${fileId})`;
+      }
+      return `[${name}](${ANYTYPE_GATEWAY_URL}/file/${fileId})`;
+    });
+  }
+
+  /**
+   * Anytype file id of a vault attachment in a space, uploading the file the first time it is asked for (when uploads are on)
+   */
+  async getOrUploadFileId(file: TFile, spaceId: string, settings: AnyTypeSettings = this.getSettings()): Promise<string | null> {
+    const knownId = await this.findFileId(file.path, spaceId);
+    if (knownId || !settings.uploadAttachments) {
+      return knownId;
+    }
+
+    try {
+      const data = await this.app.vault.readBinary(file);
+      const fileId = await this.apiService.uploadFile(spaceId, settings.apiKey, file.name, data, this.contentTypeFromExtension(file.extension));
+      const index = await this.loadIndex();
+      index.set(fileId, { path: file.path, spaceId });
+      await this.saveIndex();
+      this.logger.info(`Uploaded attachment ${file.path} as ${fileId}`);
+      return fileId;
+    } catch (error) {
+      this.logger.warn(`Failed to upload attachment ${file.path}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Anytype file id a vault attachment was downloaded from or uploaded as, in a space
+   */
+  async findFileId(path: string, spaceId: string): Promise<string | null> {
+    for (const [fileId, entry] of await this.loadIndex()) {
+      if (entry.path === path && entry.spaceId === spaceId) {
+        return fileId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Keep the index in step with attachments renamed or moved in the vault
+   */
+  async updatePath(oldPath: string, newPath: string): Promise<void> {
+    const index = await this.loadIndex();
+    let updated = false;
+    for (const entry of index.values()) {
+      if (entry.path === oldPath) {
+        entry.path = newPath;
+        updated = true;
+      }
+    }
+    if (updated) {
+      await this.saveIndex();
+    }
+  }
+
+  /**
+   * The non-note file a wikilink target points at
+   */
+  private resolveAttachment(linkTarget: string, sourcePath: string): TFile | null {
+    const linkpath = linkTarget.split(/[#^]/)[0].trim();
+    const file = linkpath ? this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath) : null;
+    return file && file.extension !== 'md' ? file : null;
+  }
+
+  private async download(spaceId: string, fileId: string, url: string, settings: AnyTypeSettings): Promise<string> {
+    const info = await this.apiService.getFileInfo(spaceId, settings.apiKey, fileId);
+    const { data, contentType } = await this.apiService.downloadFile(url);
+
+    const extension = (info?.extension || this.extensionFromContentType(contentType)).replace(/^\./, '').toLowerCase();
+    let baseName = TextProcessor.sanitizeFilename(info?.name || fileId);
+    if (extension && baseName.toLowerCase().endsWith(`.${extension}`)) {
+      baseName = baseName.substring(0, baseName.length - extension.length - 1);
+    }
+
+    const folder = (settings.attachmentsFolder || '').trim().replace(/^\/+|\/+$/g, '');
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    const path = this.getFreePath(folder, baseName, extension, fileId);
+    await this.app.vault.createBinary(path, data);
+    this.snapshotService.recordCreate(path);
+    this.logger.info(`Downloaded attachment ${fileId} to ${path}`);
+    return path;
+  }
+
+  /**
+   * Path for a new attachment; a different file with the same name gets the end of the file id appended
+   */
+  private getFreePath(folder: string, baseName: string, extension: string, fileId: string): string {
+    const buildPath = (name: string) => normalizePath(`${folder ? `${folder}/` : ''}${name}${extension ? `.${extension}` : ''}`);
+
+    let path = buildPath(baseName);
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(path)) {
+      path = buildPath(`${baseName} ${fileId.slice(-6)}${counter > 1 ? ` ${counter}` : ''}`);
+      counter++;
+    }
+    return path;
+  }
+
+  private extensionFromContentType(contentType: string): string {
+    const subtype = contentType.split(';')[0].split('/')[1] || '';
+    const known: Record<string, string> = { jpeg: 'jpg', 'svg+xml': 'svg', plain: 'txt' };
+    return known[subtype] || subtype.replace(/[^a-z0-9]/gi, '');
+  }
+
+  private contentTypeFromExtension(extension: string): string {
+    const known: Record<string, string> = {
+      jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml',
+      bmp: 'image/bmp', avif: 'image/avif', pdf: 'application/pdf', txt: 'text/plain', mp3: 'audio/mpeg', mp4: 'video/mp4'
+    };
+    return known[extension.toLowerCase()] || 'application/octet-stream';
+  }
+
+  private async loadIndex(): Promise<Map<string, AttachmentIndexEntry>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    this.index = new Map();
+    try {
+      const adapter = this.app.vault.adapter;
+      if (await adapter.exists(this.indexPath)) {
+        const data: AttachmentIndexData = JSON.parse(await adapter.read(this.indexPath));
+        for (const [fileId, entry] of Object.entries(data?.files || {})) {
+          if (typeof entry?.path === 'string' && typeof entry?.spaceId === 'string') {
+            this.index.set(fileId, { path: entry.path, spaceId: entry.spaceId });
+          }
+        }
+      }
+      this.logger.debug(`Loaded attachment index with ${this.index.size} files`);
+    } catch (error) {
+      this.logger.warn(`Failed to read attachment index, starting empty: ${error.message}`);
+    }
+    return this.index;
+  }
+
+  private async saveIndex(): Promise<void> {
+    if (!this.index) {
+      return;
+    }
+
+    const data: AttachmentIndexData = { version: ATTACHMENT_INDEX_VERSION, files: Object.fromEntries(this.index) };
+    try {
+      await this.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+    } catch (error) {
+      this.logger.error(`Failed to save attachment index: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { AnyTypeSettings, SyncResult } from '../types';
+import { Logger } from '../utils/logger';
+import { PathUtils } from '../utils/path-utils';
+import { ANYTYPE_STATUS_KEY } from '../constants';
+import { SyncService } from './sync-service';
+import { SnapshotService } from './snapshot-service';
+
+export interface AutoSyncCallbacks {
+  getSettings: () => AnyTypeSettings;
+  updateStatus: (text?: string) => void;
+  onSyncComplete: (result: SyncResult) => void;
+}
+
+/**
+ * Background push of linked notes after they are edited in Obsidian
+ * Vault events queue notes, bursts of edits are debounced and the queue is pushed as one batch
+ */
+export class AutoSyncService {
+  private app: App;
+  private syncService: SyncService;
+  private snapshotService: SnapshotService;
+  private logger: Logger;
+  private callbacks: AutoSyncCallbacks;
+  private queue = new Map<string, TFile>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private paused = false;
+
+  constructor(app: App, syncService: SyncService, snapshotService: SnapshotService, logger: Logger, callbacks: AutoSyncCallbacks) {
+    this.app = app;
+    this.syncService = syncService;
+    this.snapshotService = snapshotService;
+    this.logger = logger;
+    this.callbacks = callbacks;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get pendingCount(): number {
+    return this.queue.size;
+  }
+
+  handleModify(file: TAbstractFile): void {
+    if (file instanceof TFile) {
+      this.enqueue(file);
+    }
+  }
+
+  /**
+   * Follow a rename; when the new name was already pushed (`renamePushed`), the note is only queued if it had pending edits
+   */
+  handleRename(file: TAbstractFile, oldPath: string, renamePushed = false): void {
+    const hadEdits = this.queue.delete(oldPath);
+    if (file instanceof TFile && (hadEdits || !renamePushed)) {
+      this.enqueue(file);
+    }
+  }
+
+  handleDelete(file: TAbstractFile): void {
+    if (this.queue.delete(file.path)) {
+      this.logger.debug(`Auto sync: dropped deleted note ${file.path} from the queue`);
+      this.reportQueue();
+    }
+  }
+
+  /**
+   * Pause or resume background pushes; edits made while paused are pushed on resume
+   */
+  togglePause(): boolean {
+    this.paused = !this.paused;
+    this.logger.info(`Auto sync ${this.paused ? 'paused' : 'resumed'}`);
+
+    if (this.paused) {
+      this.clearTimer();
+    } else if (this.queue.size > 0) {
+      this.schedule();
+    }
+    this.reportQueue();
+    return this.paused;
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.queue.clear();
+  }
+
+  /**
+   * Whether a path falls inside the configured include folders and outside the excluded ones
+   */
+  isInScope(path: string): boolean {
+    const { autoSyncIncludeFolders, autoSyncExcludeFolders } = this.callbacks.getSettings();
+    const included = autoSyncIncludeFolders.length === 0 || autoSyncIncludeFolders.some(folder => PathUtils.isInFolder(path, folder));
+    const excluded = autoSyncExcludeFolders.some(folder => PathUtils.isInFolder(path, folder));
+    return included && !excluded;
+  }
+
+  private enqueue(file: TFile): void {
+    const settings = this.callbacks.getSettings();
+    if (!settings.autoSync || file.extension !== 'md' || !this.isInScope(file.path)) {
+      return;
+    }
+
+    // Linked status is checked at flush time, when the metadata cache has caught up with the edit
+    this.queue.set(file.path, file);
+    this.logger.debug(`Auto sync: queued ${file.path}`);
+
+    if (!this.paused) {
+      this.schedule();
+    }
+    this.reportQueue();
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    const delaySeconds = Math.max(1, this.callbacks.getSettings().autoSyncDelay || 0);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delaySeconds * 1000);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const settings = this.callbacks.getSettings();
+    if (this.paused || !settings.autoSync) {
+      return;
+    }
+
+    // Edits made during a running push are picked up by the next one
+    if (this.flushing) {
+      this.schedule();
+      return;
+    }
+
+    if (!settings.isAuthenticated || !settings.apiKey || !settings.spaceId) {
+      this.logger.debug('Auto sync: not authenticated or no space selected, keeping queue');
+      return;
+    }
+
+    const files = Array.from(this.queue.values()).filter(file => this.isPushable(file));
+    this.queue.clear();
+
+    if (files.length === 0) {
+      this.callbacks.updateStatus();
+      return;
+    }
+
+    this.flushing = true;
+    this.logger.info(`Auto sync: pushing ${files.length} edited notes`);
+    this.callbacks.updateStatus(`Auto-syncing ${files.length} note${files.length === 1 ? '' : 's'}...`);
+
+    try {
+      const result = await this.snapshotService.run('Auto sync', () => this.syncService.pushChangedNotes(files, settings.spaceId, settings.apiKey, {
+        skipSystemProperties: settings.skipSystemProperties,
+        pushNoteBody: settings.pushNoteBody,
+        safeImport: settings.safeImport,
+        linkedNotesDepth: settings.pushLinkedNotes ? settings.linkedNotesDepth : 0,
+        updateStatusCallback: (status: string) => this.callbacks.updateStatus(`Auto-sync: ${status}`)
+      }));
+      this.callbacks.onSyncComplete(result);
+    } catch (error) {
+      this.logger.error(`Auto sync failed: ${error.message}`);
+      this.callbacks.updateStatus('Auto-sync failed');
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private isPushable(file: TFile): boolean {
+    // The file may have been deleted or renamed while waiting in the queue
+    if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) {
+      return false;
+    }
+
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter?.id || !frontmatter?.space_id || frontmatter[ANYTYPE_STATUS_KEY]) {
+      return false;
+    }
+
+    // Never push over an unresolved conflict in the background
+    if (this.syncService.hasUnresolvedConflict(file)) {
+      this.logger.info(`Auto sync: skipping "${file.basename}" until its conflict file is resolved`);
+      return false;
+    }
+
+    return true;
+  }
+
+  private reportQueue(): void {
+    if (this.paused) {
+      this.callbacks.updateStatus(this.queue.size > 0 ? `Auto-sync paused (${this.queue.size} pending)` : 'Auto-sync paused');
+    } else if (this.queue.size > 0 && !this.flushing) {
+      this.callbacks.updateStatus(`Auto-sync: ${this.queue.size} pending`);
+    }
+  }
+}
@@ -2,9 +2,22 @@
 
 // Core API communication
 export { AnyTypeApiService } from './api-service';
+export { AnyTypeApiError, ApiRequestClient } from './api-request';
+export type { AnyTypeApiErrorKind, ApiRequestOptions, RetryPolicy } from './api-request';
 
 // Authentication
 export { AnyTypeAuthService } from './auth-service';
 
 // Sync operations
-export { SyncService } from './sync-service';
\ No newline at end of file
+export { SyncService } from './sync-service';
+export { AutoSyncService } from './auto-sync-service';
+export type { AutoSyncCallbacks } from './auto-sync-service';
+export { LocalDeletionService } from './local-deletion-service';
+export type { LocalDeletionCallbacks } from './local-deletion-service';
+
+// Sync state
+export { SyncLedger } from './sync-ledger';
+export { SnapshotService } from './snapshot-service';
+export { OperationsLog } from './operations-log';
+export { AttachmentService } from './attachment-service';
+export { ObjectNameCache } from './object-name-cache';
@@ -0,0 +1,131 @@
+import { CachedMetadata, Notice, TFile } from 'obsidian';
+import { AnyTypeSettings, LocalDeletionChoice } from '../types';
+import { Logger } from '../utils/logger';
+import { PathUtils } from '../utils/path-utils';
+import { ANYTYPE_STATUS_KEY } from '../constants';
+import { AnyTypeApiService } from './api-service';
+import { SyncLedger } from './sync-ledger';
+import { OperationsLog } from './operations-log';
+
+export interface LocalDeletionCallbacks {
+  getSettings: () => AnyTypeSettings;
+  confirm: (noteName: string) => Promise<LocalDeletionChoice>;
+  updateStatus: (text?: string) => void;
+}
+
+/**
+ * Archives or deletes the Anytype object of a linked note when the note is deleted in Obsidian (opt-in)
+ * Every decision, including declined prompts, is written to the operations log
+ */
+export class LocalDeletionService {
+  private apiService: AnyTypeApiService;
+  private syncLedger: SyncLedger;
+  private operationsLog: OperationsLog;
+  private logger: Logger;
+  private callbacks: LocalDeletionCallbacks;
+  private trustedForSession = false;
+  private suppressed = 0;
+  // Deletions are handled one at a time, so deleting a folder prompts note by note
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(apiService: AnyTypeApiService, syncLedger: SyncLedger, operationsLog: OperationsLog, logger: Logger, callbacks: LocalDeletionCallbacks) {
+    this.apiService = apiService;
+    this.syncLedger = syncLedger;
+    this.operationsLog = operationsLog;
+    this.logger = logger;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Called from the metadata cache "deleted" event, which still carries the frontmatter of the removed note
+   */
+  handleDelete(file: TFile, prevCache: CachedMetadata | null): void {
+    const settings = this.callbacks.getSettings();
+    if (!settings.propagateLocalDeletions || this.suppressed > 0 || file.extension !== 'md') {
+      return;
+    }
+
+    const frontmatter = prevCache?.frontmatter;
+    const objectId = frontmatter?.id;
+    const spaceId = frontmatter?.space_id;
+    // Notes marked with anytype_status lost their object already
+    if (typeof objectId !== 'string' || typeof spaceId !== 'string' || !objectId || !spaceId || frontmatter?.[ANYTYPE_STATUS_KEY]) {
+      return;
+    }
+
+    if (!this.isInScope(file.path)) {
+      this.logger.debug(`Local deletion: ${file.path} is outside the configured folders, Anytype object kept`);
+      return;
+    }
+
+    this.pending = this.pending.then(() => this.removeObject(file.path, file.basename, objectId, spaceId));
+  }
+
+  /**
+   * Run a task whose own file deletions (undo, reconciling remote deletions) must not reach Anytype
+   */
+  async suppress<T>(task: () => Promise<T>): Promise<T> {
+    this.suppressed++;
+    try {
+      return await task();
+    } finally {
+      this.suppressed--;
+    }
+  }
+
+  isInScope(path: string): boolean {
+    const folders = this.callbacks.getSettings().localDeletionFolders;
+    return folders.length === 0 || folders.some(folder => PathUtils.isInFolder(path, folder));
+  }
+
+  private async removeObject(path: string, name: string, objectId: string, spaceId: string): Promise<void> {
+    const settings = this.callbacks.getSettings();
+    const deleting = settings.localDeletionAction === 'delete';
+    const logBase = { operation: deleting ? 'delete-object' : 'archive-object', path, objectId, spaceId };
+
+    if (!settings.isAuthenticated || !settings.apiKey) {
+      await this.operationsLog.append({ ...logBase, outcome: 'skipped', detail: 'not connected to Anytype' });
+      new Notice(`⚠️ "${name}" was deleted but its Anytype object was kept: not connected to Anytype`, 8000);
+      return;
+    }
+
+    if (settings.confirmLocalDeletions && !this.trustedForSession) {
+      const choice = await this.callbacks.confirm(name);
+      if (choice === 'keep') {
+        await this.operationsLog.append({ ...logBase, outcome: 'skipped', detail: 'kept in Anytype on request' });
+        return;
+      }
+      if (choice === 'trust') {
+        this.trustedForSession = true;
+        this.logger.info(`Local deletion: ${deleting ? 'deleting' : 'archiving'} without confirmation for the rest of this session`);
+      }
+    }
+
+    try {
+      this.callbacks.updateStatus(`${deleting ? 'Deleting' : 'Archiving'} "${name}" in Anytype...`);
+      await this.apiService.deleteObject(spaceId, settings.apiKey, objectId);
+
+      let detail: string | undefined;
+      let message = deleting ? `🗑️ Deleted "${name}" in Anytype` : `🗑️ Archived "${name}" in Anytype`;
+      // Depending on the Anytype version, the delete endpoint removes the object or only moves it to the bin
+      if (deleting && await this.apiService.getObjectStatus(spaceId, settings.apiKey, objectId) !== 'deleted') {
+        detail = 'Anytype kept the object in its bin';
+        message = `🗑️ "${name}" was moved to the Anytype bin: this version of Anytype does not delete objects for good. Empty the bin in Anytype to remove it`;
+        this.logger.warn(`Local deletion: ${objectId} for ${path} is still in the Anytype bin after deleting`);
+      }
+
+      this.syncLedger.remove(objectId);
+      this.syncLedger.persist();
+
+      await this.operationsLog.append({ ...logBase, outcome: 'done', detail });
+      this.callbacks.updateStatus();
+      new Notice(message, detail ? 10000 : undefined);
+    } catch (error) {
+      const verb = deleting ? 'delete' : 'archive';
+      this.logger.error(`Local deletion: failed to ${verb} ${objectId} for ${path}: ${error.message}`);
+      await this.operationsLog.append({ ...logBase, outcome: 'failed', detail: error.message });
+      this.callbacks.updateStatus(`${deleting ? 'Deleting' : 'Archiving'} in Anytype failed`);
+      new Notice(`❌ "${name}" was deleted but ${deleting ? 'deleting' : 'archiving'} it in Anytype failed. Check console for details.`, 8000);
+    }
+  }
+}
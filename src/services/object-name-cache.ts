@@ -0,0 +1,132 @@
+import { App, normalizePath } from 'obsidian';
+import { AnyTypeSettings, ObjectNameCacheData, ObjectNameCacheEntry } from '../types';
+import { Logger } from '../utils/logger';
+
+const OBJECT_NAME_CACHE_VERSION = 1;
+
+/**
+ * Anytype object id → name, so relations and body links do not fetch the same object over and over
+ * Filled from search results and fetched objects first, lookups only fetch what is still missing. Entries expire after
+ * the configured TTL; unless persisted to the plugin directory, each import run starts empty
+ */
+export class ObjectNameCache {
+  private app: App;
+  private logger: Logger;
+  private cachePath: string;
+  private getSettings: () => AnyTypeSettings;
+  // Keyed by `spaceId/objectId`
+  private entries: Map<string, ObjectNameCacheEntry> = new Map();
+  private loaded = false;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(app: App, logger: Logger, pluginDir: string, getSettings: () => AnyTypeSettings) {
+    this.app = app;
+    this.logger = logger;
+    this.cachePath = normalizePath(`${pluginDir}/object-names.json`);
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * Cached name of an object, null when unknown or expired
+   */
+  get(spaceId: string, objectId: string): string | null {
+    const key = `${spaceId}/${objectId}`;
+    const entry = this.entries.get(key);
+    if (entry && !this.isExpired(entry)) {
+      this.hits++;
+      return entry.name;
+    }
+
+    if (entry) {
+      this.entries.delete(key);
+    }
+    this.misses++;
+    return null;
+  }
+
+  set(spaceId: string, objectId: string, name: string): void {
+    if (spaceId && objectId && name) {
+      this.entries.set(`${spaceId}/${objectId}`, { name, cachedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Start an import run: an unpersisted cache is emptied, a persisted one loaded once; hit/miss counts restart
+   */
+  async startRun(): Promise<void> {
+    if (!this.getSettings().persistObjectNameCache) {
+      this.entries.clear();
+    } else if (!this.loaded) {
+      await this.load();
+    }
+    this.loaded = true;
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * End an import run: log how well the cache did and persist it when enabled
+   */
+  async endRun(label: string): Promise<void> {
+    const stats = this.getStats();
+    const lookups = stats.hits + stats.misses;
+    this.logger.debug(`${label}: object name cache ${stats.hits} hits, ${stats.misses} misses` +
+      `${lookups > 0 ? ` (${Math.round(stats.hits / lookups * 100)}% hit rate)` : ''}, ${stats.size} names cached`);
+
+    if (this.getSettings().persistObjectNameCache) {
+      await this.save();
+    }
+  }
+
+  getStats(): { hits: number; misses: number; size: number } {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size };
+  }
+
+  /**
+   * Forget every name, also the persisted ones
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    if (await this.app.vault.adapter.exists(this.cachePath)) {
+      await this.app.vault.adapter.remove(this.cachePath);
+    }
+  }
+
+  private isExpired(entry: ObjectNameCacheEntry): boolean {
+    const ttlMinutes = this.getSettings().objectNameCacheTtl;
+    return ttlMinutes > 0 && Date.now() - entry.cachedAt > ttlMinutes * 60 * 1000;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (await adapter.exists(this.cachePath)) {
+        const data: ObjectNameCacheData = JSON.parse(await adapter.read(this.cachePath));
+        for (const [key, entry] of Object.entries(data?.entries || {})) {
+          if (typeof entry?.name === 'string' && typeof entry?.cachedAt === 'number' && !this.isExpired(entry)) {
+            this.entries.set(key, { name: entry.name, cachedAt: entry.cachedAt });
+          }
+        }
+      }
+      this.logger.debug(`Loaded ${this.entries.size} cached object names`);
+    } catch (error) {
+      this.logger.warn(`Failed to read object name cache, starting empty: ${error.message}`);
+    }
+  }
+
+  private async save(): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry)) {
+        this.entries.delete(key);
+      }
+    }
+
+    const data: ObjectNameCacheData = { version: OBJECT_NAME_CACHE_VERSION, entries: Object.fromEntries(this.entries) };
+    try {
+      await this.app.vault.adapter.write(this.cachePath, JSON.stringify(data));
+    } catch (error) {
+      this.logger.error(`Failed to save object name cache: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { App, normalizePath } from 'obsidian';
+import { OperationLogEntry } from '../types';
+import { Logger } from '../utils/logger';
+import { MAX_OPERATIONS_LOG_ENTRIES } from '../constants';
+
+/**
+ * Append-only record of plugin actions that change Anytype, so accidental changes can be traced afterwards
+ * Stored as one JSON object per line in the plugin directory; only the newest entries are kept
+ */
+export class OperationsLog {
+  private app: App;
+  private logger: Logger;
+  private logPath: string;
+  // Appends are serialized so concurrent entries do not overwrite each other
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(app: App, logger: Logger, pluginDir: string) {
+    this.app = app;
+    this.logger = logger;
+    this.logPath = normalizePath(`${pluginDir}/operations.log`);
+  }
+
+  get path(): string {
+    return this.logPath;
+  }
+
+  append(entry: Omit<OperationLogEntry, 'timestamp'>): Promise<void> {
+    const fullEntry: OperationLogEntry = { timestamp: new Date().toISOString(), ...entry };
+    this.logger.info(`Operations log: ${fullEntry.operation} ${fullEntry.outcome} for ${fullEntry.path}${fullEntry.detail ? ` (${fullEntry.detail})` : ''}`);
+
+    this.writing = this.writing.then(() => this.write(fullEntry));
+    return this.writing;
+  }
+
+  private async write(entry: OperationLogEntry): Promise<void> {
+    try {
+      const lines = await this.readLines();
+      lines.push(JSON.stringify(entry));
+      await this.app.vault.adapter.write(this.logPath, lines.slice(-MAX_OPERATIONS_LOG_ENTRIES).join('\n') + '\n');
+    } catch (error) {
+      this.logger.error(`Failed to write operations log: ${error.message}`);
+    }
+  }
+
+  private async readLines(): Promise<string[]> {
+    const adapter = this.app.vault.adapter;
+    if (!await adapter.exists(this.logPath)) {
+      return [];
+    }
+    return (await adapter.read(this.logPath)).split('\n').filter(line => line.trim().length > 0);
+  }
+}
@@ -0,0 +1,285 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { AnyTypeSettings, SnapshotData, SnapshotFileEntry, SyncLedgerEntry } from '../types';
+import { Logger } from '../utils/logger';
+import { SyncLedger } from './sync-ledger';
+
+interface SnapshotSession {
+  operation: string;
+  createdAt: number;
+  // Keyed by the path the file had before the operation
+  files: Map<string, SnapshotFileEntry>;
+  ledgerEntries: Map<string, SyncLedgerEntry | null>;
+}
+
+/**
+ * Snapshots of every note an Anytype operation is about to change, so the operation can be undone
+ * Snapshots are JSON files in the plugin directory; only the newest ones are kept
+ */
+export class SnapshotService {
+  private app: App;
+  private logger: Logger;
+  private syncLedger: SyncLedger;
+  private snapshotDir: string;
+  private getSettings: () => AnyTypeSettings;
+  // Only one operation runs at a time, so captures always land in the session of the operation making them
+  private session: SnapshotSession | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  private running = 0;
+  // Paths notes are being moved back to by undo; those renames are not the user's and must not reach Anytype
+  private restoringPaths = new Set<string>();
+
+  constructor(app: App, logger: Logger, syncLedger: SyncLedger, pluginDir: string, getSettings: () => AnyTypeSettings) {
+    this.app = app;
+    this.logger = logger;
+    this.syncLedger = syncLedger;
+    this.snapshotDir = normalizePath(`${pluginDir}/snapshots`);
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * Run an operation inside a snapshot session of its own, once the operations started before it have finished
+   * The snapshot is saved once the operation finishes, also when it fails halfway. Must not be called from within
+   * another run, it would wait for itself
+   */
+  async run<T>(operation: string, task: () => Promise<T>): Promise<T> {
+    return this.exclusive(operation, async () => {
+      if (!this.getSettings().snapshotsEnabled) {
+        return task();
+      }
+
+      const session: SnapshotSession = { operation, createdAt: Date.now(), files: new Map(), ledgerEntries: new Map() };
+      this.session = session;
+      try {
+        return await task();
+      } finally {
+        this.session = null;
+        await this.save(session);
+      }
+    });
+  }
+
+  /**
+   * Whether a note is being renamed to `path` by undo
+   */
+  isRestoring(path: string): boolean {
+    return this.restoringPaths.has(path);
+  }
+
+  /**
+   * Run a task without a snapshot, but never alongside a snapshotted operation (e.g. undo)
+   */
+  async exclusive<T>(operation: string, task: () => Promise<T>): Promise<T> {
+    if (this.running > 0) {
+      this.logger.debug(`"${operation}" waits for the running operation to finish`);
+    }
+    this.running++;
+
+    const previous = this.pending;
+    let release: () => void = () => undefined;
+    this.pending = new Promise<void>(resolve => release = resolve);
+    try {
+      await previous;
+      return await task();
+    } finally {
+      this.running--;
+      release();
+    }
+  }
+
+  /**
+   * Remember a note's content before the plugin modifies it
+   * Only the first capture per file counts, later ones within the same operation would hold intermediate content
+   */
+  async capture(file: TFile): Promise<void> {
+    const session = this.session;
+    if (!session || this.findEntry(session, file.path)) {
+      return;
+    }
+
+    try {
+      const content = await this.app.vault.read(file);
+      session.files.set(file.path, { path: file.path, currentPath: file.path, content });
+      this.captureLedgerEntry(session, this.app.metadataCache.getFileCache(file)?.frontmatter?.id);
+    } catch (error) {
+      this.logger.warn(`Snapshot: failed to capture ${file.path}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remember that the operation created a note, so undo can remove it again
+   */
+  recordCreate(path: string, objectId?: string): void {
+    const session = this.session;
+    if (!session || this.findEntry(session, path)) {
+      return;
+    }
+    session.files.set(path, { path, currentPath: path, content: null });
+    this.captureLedgerEntry(session, objectId);
+  }
+
+  recordRename(oldPath: string, newPath: string): void {
+    const entry = this.session ? this.findEntry(this.session, oldPath) : null;
+    if (entry) {
+      entry.currentPath = newPath;
+    }
+  }
+
+  /**
+   * Restore the notes of the newest snapshot to their exact previous contents and paths
+   * Only the vault and the sync ledger are restored; changes already sent to Anytype stay in Anytype
+   */
+  async undoLast(): Promise<{ operation: string; restored: number; removed: number; failed: number } | null> {
+    const snapshotPath = (await this.listSnapshotPaths()).pop();
+    if (!snapshotPath) {
+      return null;
+    }
+
+    const snapshot: SnapshotData = JSON.parse(await this.app.vault.adapter.read(snapshotPath));
+    this.logger.info(`Undoing "${snapshot.operation}" from ${new Date(snapshot.createdAt).toLocaleString()} (${snapshot.files.length} files)`);
+
+    let restored = 0;
+    let removed = 0;
+    let failed = 0;
+    for (const entry of snapshot.files) {
+      try {
+        if (entry.content === null) {
+          if (await this.removeCreatedFile(entry)) removed++;
+        } else {
+          await this.restoreFile(entry);
+          restored++;
+        }
+      } catch (error) {
+        failed++;
+        this.logger.error(`Undo: failed to restore ${entry.path}: ${error.message}`);
+      }
+    }
+
+    for (const [objectId, ledgerEntry] of Object.entries(snapshot.ledgerEntries)) {
+      this.syncLedger.restore(objectId, ledgerEntry);
+    }
+    this.syncLedger.persist();
+
+    // A partly failed undo keeps its snapshot so it can be retried
+    if (failed === 0) {
+      await this.app.vault.adapter.remove(snapshotPath);
+    }
+
+    this.logger.info(`Undo of "${snapshot.operation}" complete: ${restored} restored, ${removed} removed, ${failed} failed`);
+    return { operation: snapshot.operation, restored, removed, failed };
+  }
+
+  private async restoreFile(entry: SnapshotFileEntry): Promise<void> {
+    const content = entry.content || '';
+    let file = this.app.vault.getAbstractFileByPath(entry.currentPath);
+
+    if (!(file instanceof TFile)) {
+      await this.ensureParentFolder(entry.path);
+      await this.app.vault.create(entry.path, content);
+      return;
+    }
+
+    if (entry.currentPath !== entry.path) {
+      if (this.app.vault.getAbstractFileByPath(entry.path)) {
+        throw new Error(`cannot move "${entry.currentPath}" back, "${entry.path}" already exists`);
+      }
+      this.restoringPaths.add(entry.path);
+      try {
+        await this.app.vault.rename(file, entry.path);
+      } finally {
+        this.restoringPaths.delete(entry.path);
+      }
+      file = this.app.vault.getAbstractFileByPath(entry.path);
+    }
+
+    if (file instanceof TFile) {
+      await this.app.vault.process(file, () => content);
+    }
+  }
+
+  private async removeCreatedFile(entry: SnapshotFileEntry): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(entry.currentPath);
+    if (!(file instanceof TFile)) {
+      return false;
+    }
+    await this.app.fileManager.trashFile(file);
+    return true;
+  }
+
+  private async save(session: SnapshotSession): Promise<void> {
+    if (session.files.size === 0) {
+      return;
+    }
+
+    const snapshot: SnapshotData = {
+      operation: session.operation,
+      createdAt: session.createdAt,
+      files: Array.from(session.files.values()),
+      ledgerEntries: Object.fromEntries(session.ledgerEntries)
+    };
+
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!await adapter.exists(this.snapshotDir)) {
+        await adapter.mkdir(this.snapshotDir);
+      }
+      await adapter.write(normalizePath(`${this.snapshotDir}/${session.createdAt}.json`), JSON.stringify(snapshot));
+      this.logger.debug(`Snapshot of ${snapshot.files.length} files saved for "${session.operation}"`);
+      await this.prune();
+    } catch (error) {
+      this.logger.error(`Failed to save snapshot for "${session.operation}": ${error.message}`);
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const retention = Math.max(1, this.getSettings().snapshotRetention || 0);
+    const snapshotPaths = await this.listSnapshotPaths();
+    for (const snapshotPath of snapshotPaths.slice(0, Math.max(0, snapshotPaths.length - retention))) {
+      await this.app.vault.adapter.remove(snapshotPath);
+      this.logger.debug(`Removed old snapshot ${snapshotPath}`);
+    }
+  }
+
+  /**
+   * Snapshot files, oldest first
+   */
+  private async listSnapshotPaths(): Promise<string[]> {
+    const adapter = this.app.vault.adapter;
+    if (!await adapter.exists(this.snapshotDir)) {
+      return [];
+    }
+
+    const { files } = await adapter.list(this.snapshotDir);
+    return files
+      .filter(path => path.endsWith('.json'))
+      .sort((a, b) => this.snapshotTime(a) - this.snapshotTime(b));
+  }
+
+  private snapshotTime(path: string): number {
+    const name = path.substring(path.lastIndexOf('/') + 1);
+    return parseInt(name, 10) || 0;
+  }
+
+  private findEntry(session: SnapshotSession, currentPath: string): SnapshotFileEntry | null {
+    for (const entry of session.files.values()) {
+      if (entry.currentPath === currentPath) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  private captureLedgerEntry(session: SnapshotSession, objectId: unknown): void {
+    if (typeof objectId !== 'string' || !objectId || session.ledgerEntries.has(objectId)) {
+      return;
+    }
+    const entry = this.syncLedger.get(objectId);
+    session.ledgerEntries.set(objectId, entry ? JSON.parse(JSON.stringify(entry)) : null);
+  }
+
+  private async ensureParentFolder(path: string): Promise<void> {
+    const parentPath = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+    if (parentPath && !this.app.vault.getAbstractFileByPath(parentPath)) {
+      await this.app.vault.createFolder(parentPath);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { App, normalizePath } from 'obsidian';
+import { SyncLedgerData, SyncLedgerEntry } from '../types';
+import { Logger } from '../utils/logger';
+
+const SYNC_LEDGER_VERSION = 1;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Persistent record of the last successful sync for every linked note/object pair
+ * Keyed by Anytype object ID and stored in `sync-ledger.json` in the plugin directory, apart from the settings
+ */
+export class SyncLedger {
+  private app: App;
+  private entries = new Map<string, SyncLedgerEntry>();
+  private lastPullDates = new Map<string, string>();
+  private logger: Logger;
+  private ledgerPath: string;
+  // Bulk operations persist after every note; writes are batched and never overlap
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(app: App, logger: Logger, pluginDir: string) {
+    this.app = app;
+    this.logger = logger;
+    this.ledgerPath = normalizePath(`${pluginDir}/sync-ledger.json`);
+  }
+
+  /**
+   * Load the ledger file; without one, `legacyData` (the ledger older versions kept in the plugin data) is taken over
+   * Returns whether the legacy ledger was moved into the ledger file
+   */
+  async load(legacyData?: SyncLedgerData | null): Promise<boolean> {
+    let data: SyncLedgerData | null = null;
+    try {
+      const adapter = this.app.vault.adapter;
+      if (await adapter.exists(this.ledgerPath)) {
+        data = JSON.parse(await adapter.read(this.ledgerPath));
+      }
+    } catch (error) {
+      this.logger.error(`Failed to read sync ledger, starting empty: ${error.message}`);
+    }
+
+    if (data || !legacyData) {
+      this.apply(data);
+      return false;
+    }
+    this.apply(legacyData);
+    await this.write();
+    this.logger.info(`Moved sync ledger with ${this.entries.size} entries out of the plugin settings`);
+    return true;
+  }
+
+  private apply(data?: SyncLedgerData | null): void {
+    this.entries.clear();
+    this.lastPullDates.clear();
+
+    if (!data || typeof data !== 'object' || !data.entries) {
+      this.logger.debug('No stored sync ledger found, starting empty');
+      return;
+    }
+
+    for (const [objectId, entry] of Object.entries(data.entries)) {
+      if (entry && entry.objectId === objectId && typeof entry.path === 'string') {
+        this.entries.set(objectId, entry);
+      }
+    }
+
+    for (const [spaceId, date] of Object.entries(data.lastPullDates || {})) {
+      if (typeof date === 'string') {
+        this.lastPullDates.set(spaceId, date);
+      }
+    }
+
+    this.logger.debug(`Loaded sync ledger with ${this.entries.size} entries`);
+  }
+
+  /**
+   * Serialize ledger for storage in the ledger file
+   */
+  serialize(): SyncLedgerData {
+    const entries: Record<string, SyncLedgerEntry> = {};
+    this.entries.forEach((entry, objectId) => {
+      entries[objectId] = entry;
+    });
+    const lastPullDates: Record<string, string> = {};
+    this.lastPullDates.forEach((date, spaceId) => {
+      lastPullDates[spaceId] = date;
+    });
+    return { version: SYNC_LEDGER_VERSION, entries, lastPullDates };
+  }
+
+  /**
+   * Write the ledger file shortly, once a burst of changes is over
+   */
+  persist(): void {
+    if (this.persistTimer !== null) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.write();
+    }, PERSIST_DELAY_MS);
+  }
+
+  /**
+   * Write a pending change right away, e.g. when the plugin unloads
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer !== null) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      await this.write();
+    }
+    await this.writing;
+  }
+
+  private write(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      try {
+        await this.app.vault.adapter.write(this.ledgerPath, JSON.stringify(this.serialize()));
+        this.logger.debug(`Persisted sync ledger with ${this.entries.size} entries`);
+      } catch (error) {
+        this.logger.error(`Failed to persist sync ledger: ${error.message}`);
+      }
+    });
+    return this.writing;
+  }
+
+  get(objectId: string): SyncLedgerEntry | null {
+    return this.entries.get(objectId) || null;
+  }
+
+  getByPath(path: string): SyncLedgerEntry | null {
+    for (const entry of this.entries.values()) {
+      if (entry.path === path) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  getAll(): SyncLedgerEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Record the state of a pair right after a successful sync
+   */
+  record(entry: Omit<SyncLedgerEntry, 'syncedAt'>): SyncLedgerEntry {
+    const recorded: SyncLedgerEntry = { ...entry, syncedAt: Date.now() };
+    this.entries.set(entry.objectId, recorded);
+    this.logger.debug(`Recorded sync state for ${entry.objectId} at ${entry.path}`);
+    return recorded;
+  }
+
+  remove(objectId: string): void {
+    if (this.entries.delete(objectId)) {
+      this.logger.debug(`Removed sync state for ${objectId}`);
+    }
+  }
+
+  /**
+   * Put back an entry exactly as it was (used by undo); null removes the pair
+   */
+  restore(objectId: string, entry: SyncLedgerEntry | null): void {
+    if (entry) {
+      this.entries.set(objectId, entry);
+    } else {
+      this.entries.delete(objectId);
+    }
+  }
+
+  /**
+   * Follow a vault rename so the ledger keeps pointing at the right file
+   */
+  updatePath(oldPath: string, newPath: string): boolean {
+    const entry = this.getByPath(oldPath);
+    if (!entry) {
+      return false;
+    }
+    entry.path = newPath;
+    this.logger.debug(`Updated sync ledger path for ${entry.objectId}: ${oldPath} → ${newPath}`);
+    return true;
+  }
+
+  /**
+   * Moment up to which remote changes of a space have been pulled
+   */
+  getLastPullDate(spaceId: string): string | null {
+    return this.lastPullDates.get(spaceId) || null;
+  }
+
+  setLastPullDate(spaceId: string, date: string): void {
+    this.lastPullDates.set(spaceId, date);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.lastPullDates.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -1,10 +1,62 @@
-import { App, TFile, MarkdownView, normalizePath, Notice } from 'obsidian';
-import { AnyTypeObject, CreateObjectRequest, SyncResult, PropertyValue, SyncOptions, NoteCreationOptions, PropertyProcessingOptions } from '../types';
-import { Logger, Validation, PropertyProcessor, TextProcessor, WikilinkResolver, TagResolver } from '../utils';
+import { App, TFile, MarkdownView, normalizePath, Notice, getAllTags } from 'obsidian';
+import { AnyTypeObject, AnyTypeProperty, CreateObjectRequest, SyncResult, SyncLedgerEntry, PropertyValue, SyncOptions, NoteCreationOptions, PropertyProcessingOptions, SyncPlan, SyncPlanChange, SyncPlanItem, SyncPlanOperation, ReconciledNote, ReconcileResult, RemoteDeletionPolicy, PushSelection, LinkIssue, DEFAULT_SETTINGS } from '../types';
+import { Logger, Validation, PropertyProcessor, TextProcessor, WikilinkResolver, TagResolver, ConflictResolver, PropertyConflict, FrontmatterProcessor, PathUtils, OperationCancelledError } from '../utils';
 import { AnyTypeApiService } from './api-service';
-import { MAX_NOTE_SIZE } from '../constants';
+import { AnyTypeApiError } from './api-request';
+import { SyncLedger } from './sync-ledger';
+import { SnapshotService } from './snapshot-service';
+import { AttachmentService } from './attachment-service';
+import { ANYTYPE_STATUS_KEY, MAX_NOTE_SIZE, PULL_OVERLAP_MS } from '../constants';
 import { FRONTMATTER_SKIP_PROPERTIES } from '../constants/property-filters';
 
+interface NoteMergeResult {
+  noteObject: AnyTypeObject;
+  conflicts: PropertyConflict[];
+  remoteBody: string | null;
+  keepLocalBody: boolean;
+  pendingPush: boolean;
+}
+
+interface PreparedPush {
+  frontmatter: Record<string, any>;
+  objectId: string;
+  objectType: string;
+  targetSpaceId: string;
+  availableProperties: AnyTypeProperty[];
+  customObsidianProperties: Record<string, any>;
+  // Current Anytype version, fetched when the note has a ledger entry to merge against
+  currentObject: AnyTypeObject | null;
+  conflicts: PropertyConflict[];
+  validatedProperties: PropertyValue[];
+  localBody: string;
+  bodyToPush: string | null;
+  conflictBody: string | null;
+  // Anytype body to write into the note, when only Anytype changed the body since the last sync
+  pulledBody: string | null;
+  // Attachments downloaded by earlier imports, file id → vault path
+  attachmentPaths: Map<string, string>;
+}
+
+// Linked notes pushed along by one operation; shared by all its notes so none is pushed twice and link cycles end
+interface LinkedNotePush {
+  depth: number;
+  visited: Set<string>;
+  created: string[];
+  failed: { path: string; error: string }[];
+  folderTypeMapping: Record<string, string>;
+}
+
+// uploadAttachments: upload vault attachments the note references that Anytype does not have yet (not while planning)
+type PushBodyOptions = Pick<SyncOptions, 'pushNoteBody' | 'safeImport'> & { linkedNotes?: LinkedNotePush; uploadAttachments?: boolean };
+
+interface PreparedNoteUpdate {
+  existingFile: TFile | null;
+  existingContent: string | null;
+  merge: NoteMergeResult | null;
+  noteObject: AnyTypeObject;
+  yamlFrontmatter: string;
+}
+
 export class SyncService {
   private app: App;
   private apiService: AnyTypeApiService;
@@ -12,17 +64,35 @@ export class SyncService {
   private propertyProcessor: PropertyProcessor;
   private wikilinkResolver: WikilinkResolver;
   private tagResolver: TagResolver;
+  private syncLedger: SyncLedger;
+  private snapshotService?: SnapshotService;
+  private attachmentService?: AttachmentService;
+  // Paths of renames the plugin is making itself, so they are not pushed back to Anytype
+  private pluginRenames = new Set<string>();
 
-  constructor(app: App, apiService: AnyTypeApiService, logger: Logger) {
+  constructor(app: App, apiService: AnyTypeApiService, logger: Logger, syncLedger: SyncLedger, snapshotService?: SnapshotService, attachmentService?: AttachmentService) {
     this.app = app;
     this.apiService = apiService;
     this.logger = logger;
+    this.syncLedger = syncLedger;
+    this.snapshotService = snapshotService;
+    this.attachmentService = attachmentService;
     this.tagResolver = new TagResolver(logger);
     this.propertyProcessor = new PropertyProcessor(logger, this.tagResolver);
     this.wikilinkResolver = new WikilinkResolver(app, logger);
   }
 
   private findExistingFileByAnyTypeId(anyTypeId: string): TFile | null {
+    // Fast path: the ledger remembers where the note was at its last sync
+    const ledgerEntry = this.syncLedger.get(anyTypeId);
+    if (ledgerEntry) {
+      const ledgerFile = this.app.vault.getAbstractFileByPath(ledgerEntry.path);
+      if (ledgerFile instanceof TFile && this.app.metadataCache.getFileCache(ledgerFile)?.frontmatter?.id === anyTypeId) {
+        return ledgerFile;
+      }
+      this.logger.debug(`Sync ledger path "${ledgerEntry.path}" is stale for ${anyTypeId}, scanning vault`);
+    }
+
     const existingFiles = this.app.vault.getMarkdownFiles();
     return existingFiles.find(f => {
       const frontmatter = this.app.metadataCache.getFileCache(f)?.frontmatter || {};
@@ -30,6 +100,74 @@ export class SyncService {
     }) || null;
   }
 
+  /**
+   * Record the synced state of a note/object pair in the sync ledger
+   * `pendingPush` leaves the note marked as locally changed so Obsidian-side values kept on conflict get pushed next time
+   */
+  private async recordSyncState(
+    file: TFile,
+    object: AnyTypeObject,
+    body: string,
+    skipSystemProperties: boolean,
+    state: { remoteMarkdown?: string; pendingPush?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const noteContent = await this.app.vault.read(file);
+      this.syncLedger.record({
+        objectId: object.id,
+        spaceId: object.space_id,
+        path: file.path,
+        contentHash: TextProcessor.hashContent(body),
+        remoteContentHash: state.remoteMarkdown !== undefined
+          ? TextProcessor.hashContent(TextProcessor.convertAnyTypeLinksToWikilinks(state.remoteMarkdown))
+          : '',
+        noteHash: state.pendingPush ? '' : TextProcessor.hashContent(noteContent),
+        mtime: file.stat.mtime,
+        properties: this.buildAnytypeFrontmatter(object, skipSystemProperties),
+        remoteModifiedDate: this.getRemoteModifiedDate(object)
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to record sync state for ${file.basename}: ${error.message}`);
+    }
+  }
+
+  private getRemoteModifiedDate(object: AnyTypeObject): string | null {
+    const value = object.properties?.last_modified_date;
+    return typeof value === 'string' && value.length > 0 ? value : null;
+  }
+
+  /**
+   * Check whether a note changed since its last recorded sync
+   * mtime is the fast path; the note hash decides when mtime moved
+   */
+  private async hasLocalChanges(file: TFile, entry: SyncLedgerEntry): Promise<boolean> {
+    if (!entry.noteHash) {
+      return true;
+    }
+
+    // A renamed note must push its new name to Anytype
+    if (entry.properties?.name !== undefined && entry.properties.name !== file.basename) {
+      return true;
+    }
+
+    if (entry.mtime === file.stat.mtime) {
+      return false;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    return TextProcessor.hashContent(content) !== entry.noteHash;
+  }
+
+  private hasRemoteChanges(entry: SyncLedgerEntry, remoteModifiedDate: string | null | undefined): boolean {
+    if (!remoteModifiedDate) {
+      return false;
+    }
+    if (!entry.remoteModifiedDate) {
+      return true;
+    }
+    return Date.parse(remoteModifiedDate) > Date.parse(entry.remoteModifiedDate);
+  }
+
   /**
    * Enhance object properties with tag name resolution
    * Post-processes select/multi_select properties to resolve IDs to names
@@ -140,7 +278,8 @@ export class SyncService {
                                   typeof spaceId === 'string' && 
                                   spaceId.trim().length > 0;
 
-        if (hasAnyTypeMetadata) {
+        // Notes whose object was deleted or archived in Anytype stay out of syncs
+        if (hasAnyTypeMetadata && !frontmatter[ANYTYPE_STATUS_KEY]) {
           eligibleFiles.push(file);
           this.logger.debug(`Found note with Anytype metadata: ${file.basename}`);
         }
@@ -153,51 +292,66 @@ export class SyncService {
     return eligibleFiles;
   }
 
-  generateYamlFrontmatter(object: AnyTypeObject, skipSystemProperties = true, preservedProperties?: Record<string, any>): string {
-    try {
-      // Validate required fields
-      if (!object.id || !object.space_id || !object.type_key) {
-        throw new Error('Missing required object fields');
-      }
+  /**
+   * Build the frontmatter values that come from Anytype (core fields + object properties)
+   */
+  private buildAnytypeFrontmatter(object: AnyTypeObject, skipSystemProperties = true): Record<string, any> {
+    // Validate required fields
+    if (!object.id || !object.space_id || !object.type_key) {
+      throw new Error('Missing required object fields');
+    }
 
-      // Sanitize core fields
-      const frontmatter: Record<string, any> = {
-        id: TextProcessor.sanitizeForYaml(object.id),
-        space_id: TextProcessor.sanitizeForYaml(object.space_id),
-        type_key: TextProcessor.sanitizeForYaml(object.type_key),
-        name: TextProcessor.sanitizeForYaml(object.name) || 'Untitled'
-      };
+    // Sanitize core fields
+    const frontmatter: Record<string, any> = {
+      id: TextProcessor.sanitizeForYaml(object.id),
+      space_id: TextProcessor.sanitizeForYaml(object.space_id),
+      type_key: TextProcessor.sanitizeForYaml(object.type_key),
+      name: TextProcessor.sanitizeForYaml(object.name) || 'Untitled'
+    };
 
-      // Add other properties with validation (only if they exist and are not empty)
-      if (object.properties && typeof object.properties === 'object' && Object.keys(object.properties).length > 0) {
-        let includedProperties = 0;
-        let skippedSystemProperties = 0;
-
-        // Sort properties alphabetically for consistent order
-        const sortedPropertyKeys = Object.keys(object.properties).sort();
-        for (const key of sortedPropertyKeys) {
-          const value = object.properties[key];
-          // Skip system properties first (if setting is enabled)
-          if (skipSystemProperties && this.isSystemProperty(key)) {
-            skippedSystemProperties++;
-            this.logger.debug(`Skipping system property: ${key}`);
-            continue;
-          }
+    // Add other properties with validation (only if they exist and are not empty)
+    if (object.properties && typeof object.properties === 'object' && Object.keys(object.properties).length > 0) {
+      let includedProperties = 0;
+      let skippedSystemProperties = 0;
+
+      // Sort properties alphabetically for consistent order
+      const sortedPropertyKeys = Object.keys(object.properties).sort();
+      for (const key of sortedPropertyKeys) {
+        const value = object.properties[key];
+        // Skip system properties first (if setting is enabled)
+        if (skipSystemProperties && this.isSystemProperty(key)) {
+          skippedSystemProperties++;
+          this.logger.debug(`Skipping system property: ${key}`);
+          continue;
+        }
 
-          // Validate key name and value
-          if (this.isValidYamlKey(key) && value !== null && value !== undefined) {
-            // Sanitize and add property value
-            const sanitizedValue = TextProcessor.sanitizePropertyValue(value);
-            if (sanitizedValue !== null) {
-              frontmatter[key] = sanitizedValue;
-              includedProperties++;
-            }
+        // Validate key name and value
+        if (this.isValidYamlKey(key) && value !== null && value !== undefined) {
+          // Sanitize and add property value
+          const sanitizedValue = TextProcessor.sanitizePropertyValue(value);
+          if (sanitizedValue !== null) {
+            frontmatter[key] = sanitizedValue;
+            includedProperties++;
           }
         }
-
-        this.logger.debug(`Property filtering for object ${object.id}: ${includedProperties} included, ${skippedSystemProperties} system properties skipped`);
       }
 
+      this.logger.debug(`Property filtering for object ${object.id}: ${includedProperties} included, ${skippedSystemProperties} system properties skipped`);
+    }
+
+    return frontmatter;
+  }
+
+  /**
+   * Build the frontmatter block for a note
+   * When the note's current frontmatter is given, it is edited in place so the user's key order,
+   * comments and untouched keys survive; otherwise a fresh block is generated
+   */
+  generateYamlFrontmatter(object: AnyTypeObject, skipSystemProperties = true, preservedProperties?: Record<string, any>, existingFrontmatter?: string | null): string {
+    const editInPlace = existingFrontmatter !== undefined && existingFrontmatter !== null;
+    try {
+      const frontmatter = this.buildAnytypeFrontmatter(object, skipSystemProperties);
+
       // Add preserved custom Obsidian properties (properties that don't exist in Anytype)
       if (preservedProperties && typeof preservedProperties === 'object') {
         let preservedCount = 0;
@@ -213,9 +367,10 @@ export class SyncService {
           const isCoreField = ['id', 'space_id', 'type_key', 'name'].includes(key);
           
           if (!isAnytypeProperty && !isCoreField && this.isValidYamlKey(key)) {
-            const sanitizedValue = TextProcessor.sanitizePropertyValue(value);
-            if (sanitizedValue !== null) {
-              frontmatter[key] = sanitizedValue;
+            // Values carried over from the note itself are written back untouched when editing in place
+            const preservedValue = editInPlace ? value : TextProcessor.sanitizePropertyValue(value);
+            if (preservedValue !== null && preservedValue !== undefined) {
+              frontmatter[key] = preservedValue;
               preservedCount++;
               this.logger.debug(`Preserved custom Obsidian property: ${key}`);
             }
@@ -229,34 +384,36 @@ export class SyncService {
 
       this.logger.debug(`Generated frontmatter for object ${object.id}`);
 
-      // Generate YAML string safely with consistent order
-      let yamlContent = '---\n';
-      
       // Sort all frontmatter keys alphabetically for consistent order
       // BUT keep core properties (id, space_id, type_key, name) at the top
       const coreKeys = ['id', 'space_id', 'type_key', 'name'];
       const otherKeys = Object.keys(frontmatter).filter(key => !coreKeys.includes(key)).sort();
       const orderedKeys = [...coreKeys.filter(key => key in frontmatter), ...otherKeys];
-      
+      const orderedFrontmatter: Record<string, any> = {};
       for (const key of orderedKeys) {
-        const value = frontmatter[key];
-        if (value !== null && value !== undefined) {
-          const yamlLine = TextProcessor.formatYamlLine(key, value);
-          yamlContent += yamlLine;
+        orderedFrontmatter[key] = frontmatter[key];
+      }
+
+      if (editInPlace) {
+        try {
+          // Keys that are neither Anytype values nor preserved were removed from the object
+          const removedKeys = Object.keys(FrontmatterProcessor.parse(existingFrontmatter)).filter(key => !(key in orderedFrontmatter));
+          return FrontmatterProcessor.wrap(FrontmatterProcessor.update(existingFrontmatter, orderedFrontmatter, removedKeys));
+        } catch (error) {
+          this.logger.warn(`Existing frontmatter of ${object.id} is not valid YAML, regenerating it: ${error.message}`);
         }
       }
-      yamlContent += '---\n\n';
 
-      return yamlContent;
+      return FrontmatterProcessor.wrap(FrontmatterProcessor.stringify(orderedFrontmatter));
     } catch (error) {
       this.logger.error(`Failed to generate YAML frontmatter for object ${object.id}: ${error.message}`);
       // Return minimal safe frontmatter as fallback
-      const safeId = TextProcessor.sanitizeForYaml(object.id) || 'unknown';
-      const safeSpaceId = TextProcessor.sanitizeForYaml(object.space_id) || 'unknown';
-      const safeTypeKey = TextProcessor.sanitizeForYaml(object.type_key) || 'page';
-      const safeName = TextProcessor.sanitizeForYaml(object.name) || 'Untitled';
-      
-      return `---\nid: ${safeId}\nspace_id: ${safeSpaceId}\n'type_key': ${safeTypeKey}\nname: ${safeName}\n---\n\n`;
+      return FrontmatterProcessor.wrap(FrontmatterProcessor.stringify({
+        id: TextProcessor.sanitizeForYaml(object.id) || 'unknown',
+        space_id: TextProcessor.sanitizeForYaml(object.space_id) || 'unknown',
+        type_key: TextProcessor.sanitizeForYaml(object.type_key) || 'page',
+        name: TextProcessor.sanitizeForYaml(object.name) || 'Untitled'
+      }));
     }
   }
 
@@ -305,7 +462,7 @@ export class SyncService {
     };
   }
 
-  generateUniqueFilename(baseName: string, importFolder: string = ''): { filename: string; hasConflict: boolean; isManualNoteConflict: boolean } {
+  generateUniqueFilename(baseName: string, importFolder: string = '', reservedPaths?: Set<string>): { filename: string; hasConflict: boolean; isManualNoteConflict: boolean } {
     if (!baseName || typeof baseName !== 'string') {
       baseName = 'Untitled';
     }
@@ -322,13 +479,13 @@ export class SyncService {
     
     const existingFile = this.app.vault.getAbstractFileByPath(targetPath);
     
-    if (!existingFile) {
+    if (!existingFile && !reservedPaths?.has(targetPath)) {
       return { filename: safeName, hasConflict: false, isManualNoteConflict: false };
     }
 
-    // File exists - check if it's a manual note (no Anytype metadata)
-    const frontmatter = this.app.metadataCache.getFileCache(existingFile as any)?.frontmatter || {};
-    const isManualNote = !frontmatter.id && !frontmatter.space_id;
+    // File exists - check if it's a manual note (no Anytype metadata); reserved paths belong to notes about to be imported
+    const frontmatter = existingFile ? this.app.metadataCache.getFileCache(existingFile as any)?.frontmatter || {} : {};
+    const isManualNote = !!existingFile && !frontmatter.id && !frontmatter.space_id;
     
     if (isManualNote) {
       this.logger.warn(`Name conflict with manual note: "${safeName}". This may break existing wikilinks.`);
@@ -343,7 +500,7 @@ export class SyncService {
         ? normalizePath(`${importFolder.trim()}/${testName}.md`)
         : normalizePath(`${testName}.md`);
       
-      if (!this.app.vault.getAbstractFileByPath(testPath)) {
+      if (!this.app.vault.getAbstractFileByPath(testPath) && !reservedPaths?.has(testPath)) {
         this.logger.debug(`Generated unique filename: ${testName}`);
         return { 
           filename: testName, 
@@ -363,29 +520,183 @@ export class SyncService {
     };
   }
 
-  async createOrUpdateObsidianNote(object: AnyTypeObject, options: NoteCreationOptions = {}): Promise<void> {
-    const { skipSystemProperties = true, safeImport = true, importFolder = '' } = options;
+  /**
+   * Write an Anytype object to its linked note, or a new note; `unchanged` when the note already had exactly that content
+   */
+  async createOrUpdateObsidianNote(incomingObject: AnyTypeObject, options: NoteCreationOptions = {}): Promise<{ file: TFile; conflicted: boolean; unchanged: boolean }> {
+    const { skipSystemProperties = true, safeImport = true, importFolder = '', linkTargets } = options;
     try {
+      // Files it references are downloaded first, so the note embeds the vault copies
+      const attachmentPaths = this.attachmentService ? await this.attachmentService.importAttachments(incomingObject) : new Map<string, string>();
+      // With link targets, `objects` properties are written (and recorded in the ledger) as exact path links
+      const object = this.withAttachmentPaths(linkTargets ? this.withLinkTargets(incomingObject, linkTargets) : incomingObject, attachmentPaths);
       this.logger.debug(`Looking for existing note with Anytype ID: ${object.id}`);
-      const existingFile = this.findExistingFileByAnyTypeId(object.id);
-      
-      const preservedCustomProperties = this.extractPreservedPropertiesForImport(existingFile, object);
+      const { existingFile, merge, noteObject, yamlFrontmatter } = await this.prepareNoteUpdate(object, skipSystemProperties, safeImport);
       this.validateObjectName(object);
-      const yamlFrontmatter = this.generateYamlFrontmatter(object, skipSystemProperties, 
-        Object.keys(preservedCustomProperties).length > 0 ? preservedCustomProperties : undefined);
       
-      if (existingFile) {
-        await this.updateExistingNote(existingFile, object, yamlFrontmatter, safeImport);
+      const written: { file: TFile; body: string; unchanged?: boolean } = existingFile
+        ? await this.updateExistingNote(existingFile, noteObject, yamlFrontmatter, safeImport, merge?.keepLocalBody, linkTargets, attachmentPaths)
+        : await this.createNewNote(object, yamlFrontmatter, importFolder, linkTargets, attachmentPaths);
+
+      const conflicted = !!merge && (merge.conflicts.length > 0 || merge.remoteBody !== null);
+      if (merge && conflicted) {
+        await this.writeConflictFile(written.file, merge.conflicts, merge.remoteBody);
+      }
+
+      // A kept Obsidian body is recorded against the Anytype body as base, so it stays a pending local change
+      const baseBody = merge?.keepLocalBody ? TextProcessor.convertAnyTypeLinksToWikilinks(object.markdown || '') : written.body;
+      await this.recordSyncState(written.file, object, baseBody, skipSystemProperties, {
+        remoteMarkdown: object.markdown || '',
+        pendingPush: !!merge?.pendingPush
+      });
+      return { file: written.file, conflicted, unchanged: !!written.unchanged };
+
+    } catch (error) {
+      this.logger.error(`Failed to create/update note for object ${incomingObject.id}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Work out what importing an object would write, without touching the vault
+   * Three-way merge against the last synced state so edits made in Obsidian are not overwritten
+   */
+  private async prepareNoteUpdate(object: AnyTypeObject, skipSystemProperties: boolean, safeImport: boolean): Promise<PreparedNoteUpdate> {
+    const existingFile = this.findExistingFileByAnyTypeId(object.id);
+    const ledgerEntry = existingFile ? this.syncLedger.get(object.id) : null;
+
+    const merge = existingFile && ledgerEntry
+      ? await this.mergeRemoteIntoNote(existingFile, object, ledgerEntry, skipSystemProperties, safeImport)
+      : null;
+    const noteObject = merge ? merge.noteObject : object;
+
+    const preservedCustomProperties = this.extractPreservedPropertiesForImport(existingFile, noteObject);
+    const existingContent = existingFile ? await this.app.vault.read(existingFile) : null;
+    const existingFrontmatter = existingContent !== null ? FrontmatterProcessor.split(existingContent).frontmatter : undefined;
+    const yamlFrontmatter = this.generateYamlFrontmatter(noteObject, skipSystemProperties, 
+      Object.keys(preservedCustomProperties).length > 0 ? preservedCustomProperties : undefined, existingFrontmatter);
+
+    return { existingFile, existingContent, merge, noteObject, yamlFrontmatter };
+  }
+
+  /**
+   * Merge an incoming Anytype object with a linked note using the ledger snapshot as the common base
+   * Returns the object to write (with Obsidian-side values kept) and anything that needs manual resolution
+   */
+  private async mergeRemoteIntoNote(
+    file: TFile,
+    object: AnyTypeObject,
+    entry: SyncLedgerEntry,
+    skipSystemProperties: boolean,
+    safeImport: boolean
+  ): Promise<NoteMergeResult> {
+    const localFrontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const remoteFrontmatter = this.buildAnytypeFrontmatter(object, skipSystemProperties);
+    const merge = ConflictResolver.mergeProperties(entry.properties || {}, localFrontmatter, remoteFrontmatter);
+
+    const keptLocalKeys = [...merge.localChanges, ...merge.conflicts.map(conflict => conflict.key)];
+    const noteObject = this.withLocalPropertyValues(object, merge.merged, keptLocalKeys);
+
+    if (merge.conflicts.length > 0) {
+      this.logger.warn(`Property conflicts in "${file.basename}": ${merge.conflicts.map(conflict => conflict.key).join(', ')}`);
+    }
+
+    // Safe Import never touches the body, so only Full Import can conflict on it
+    let keepLocalBody = false;
+    let remoteBody: string | null = null;
+    if (!safeImport) {
+      const localBody = this.extractNoteBody(await this.app.vault.read(file));
+      const incomingBody = TextProcessor.convertAnyTypeLinksToWikilinks(object.markdown || '');
+      const outcome = ConflictResolver.mergeBody(localBody, incomingBody, entry.contentHash, entry.remoteContentHash || '');
+
+      keepLocalBody = outcome !== 'remote';
+      if (outcome === 'conflict') {
+        remoteBody = incomingBody;
+        this.logger.warn(`Body conflict in "${file.basename}": both Obsidian and Anytype changed since the last sync`);
+      } else if (outcome === 'local') {
+        this.logger.info(`Keeping Obsidian body for "${file.basename}": only Obsidian changed since the last sync`);
+      }
+    }
+
+    return {
+      noteObject,
+      conflicts: merge.conflicts,
+      remoteBody,
+      keepLocalBody,
+      pendingPush: keptLocalKeys.length > 0 || keepLocalBody
+    };
+  }
+
+  /**
+   * Copy of an object whose listed properties carry the given (Obsidian-side) values instead
+   */
+  private withLocalPropertyValues(object: AnyTypeObject, values: Record<string, any>, keys: string[]): AnyTypeObject {
+    if (keys.length === 0) {
+      return object;
+    }
+
+    const properties = { ...object.properties };
+    for (const key of keys) {
+      const value = values[key];
+      if (value === undefined || value === null) {
+        delete properties[key];
       } else {
-        await this.createNewNote(object, yamlFrontmatter, importFolder);
+        properties[key] = value;
       }
+    }
+    return { ...object, properties };
+  }
+
+  /**
+   * Write the Anytype side of a conflict next to the note as `<name>.conflict.md`
+   */
+  private async writeConflictFile(file: TFile, conflicts: PropertyConflict[], remoteBody: string | null): Promise<void> {
+    const conflictPath = this.getConflictFilePath(file);
+    const content = ConflictResolver.buildConflictNote(file.basename, conflicts, remoteBody);
 
+    try {
+      const existing = this.app.vault.getAbstractFileByPath(conflictPath);
+      if (existing instanceof TFile) {
+        await this.snapshotService?.capture(existing);
+        await this.app.vault.process(existing, () => content);
+      } else {
+        await this.app.vault.create(conflictPath, content);
+        this.snapshotService?.recordCreate(conflictPath);
+      }
+      this.logger.warn(`Sync conflict for "${file.basename}" written to ${conflictPath}`);
     } catch (error) {
-      this.logger.error(`Failed to create/update note for object ${object.id}: ${error.message}`);
+      this.logger.error(`Failed to write conflict file for "${file.basename}": ${error.message}`);
       throw error;
     }
   }
 
+  private getConflictFilePath(file: TFile): string {
+    const parentPath = file.parent?.path || '';
+    return normalizePath(parentPath && parentPath !== '/' 
+      ? `${parentPath}/${file.basename}.conflict.md` 
+      : `${file.basename}.conflict.md`);
+  }
+
+  /**
+   * Whether a note still has a `.conflict.md` sibling waiting to be merged by the user
+   */
+  hasUnresolvedConflict(file: TFile): boolean {
+    return this.app.vault.getAbstractFileByPath(this.getConflictFilePath(file)) instanceof TFile;
+  }
+
+  /**
+   * Note body for an object's markdown as it is written to the vault; links get the current object names from the name cache
+   * Hashes of the remote body use the plain conversion, so cache contents never count as a body change
+   */
+  private convertRemoteBody(object: AnyTypeObject, linkTargets?: Map<string, string>, attachmentPaths?: Map<string, string>): string {
+    return TextProcessor.convertAnyTypeLinksToWikilinks(object.markdown || '', linkTargets, attachmentPaths,
+      (objectId: string) => this.apiService.getCachedObjectName(object.space_id, objectId));
+  }
+
+  private extractNoteBody(content: string): string {
+    return FrontmatterProcessor.split(content).body;
+  }
+
   private extractPreservedPropertiesForImport(existingFile: TFile | null, object: AnyTypeObject): Record<string, any> {
     const preservedCustomProperties: Record<string, any> = {};
     
@@ -424,65 +735,206 @@ export class SyncService {
     }
   }
 
-  private async updateExistingNote(existingFile: TFile, object: AnyTypeObject, yamlFrontmatter: string, safeImport: boolean): Promise<void> {
-    if (safeImport) {
-      this.logger.info(`Safe Import: Updating frontmatter only for existing note: ${existingFile.basename}`);
+  private async updateExistingNote(
+    existingFile: TFile,
+    object: AnyTypeObject,
+    yamlFrontmatter: string,
+    safeImport: boolean,
+    keepLocalBody = false,
+    linkTargets?: Map<string, string>,
+    attachmentPaths?: Map<string, string>
+  ): Promise<{ file: TFile; body: string; unchanged: boolean }> {
+    const existingContent = await this.app.vault.read(existingFile);
+    // Safe Import never renames; otherwise a pending rename is a change even when the content is not
+    const renamePending = !safeImport && this.getObjectNamePath(existingFile, object) !== null;
+
+    if (safeImport || keepLocalBody) {
+      this.logger.info(`${safeImport ? 'Safe Import' : 'Full Import'}: Updating frontmatter only for existing note: ${existingFile.basename}`);
       
-      const existingContent = await this.app.vault.read(existingFile);
-      const existingBodyMatch = existingContent.match(/^---[\s\S]*?---\n\n?([\s\S]*)$/);
-      const existingBody = existingBodyMatch ? existingBodyMatch[1] : existingContent;
+      const existingBody = this.extractNoteBody(existingContent);
       
       const safeNoteContent = yamlFrontmatter + existingBody;
-      await this.app.vault.process(existingFile, () => safeNoteContent);
+      const written = await this.writeNoteContent(existingFile, existingContent, safeNoteContent);
+      if (!safeImport) {
+        await this.renameToObjectName(existingFile, object);
+      }
+      return { file: existingFile, body: existingBody, unchanged: !written && !renamePending };
     } else {
-      const markdownContent = TextProcessor.convertAnyTypeLinksToWikilinks(object.markdown || '');
+      const markdownContent = this.convertRemoteBody(object, linkTargets, attachmentPaths);
       const noteContent = yamlFrontmatter + markdownContent;
       
       this.logger.info(`Full Import: Updating existing note: ${existingFile.basename} with fresh markdown content (${markdownContent.length} chars)`);
-      await this.app.vault.process(existingFile, () => noteContent);
-      
-      // Rename file to match AnyType object name when SAFE import is disabled
-      const currentName = existingFile.basename;
-      const targetName = TextProcessor.sanitizeFilename(object.name || 'Untitled');
-      
-      if (currentName !== targetName) {
-        const parentPath = existingFile.parent?.path || '';
-        const newPath = parentPath ? `${parentPath}/${targetName}.md` : `${targetName}.md`;
-        
-        try {
-          // Check if target name already exists
-          const existingTarget = this.app.vault.getAbstractFileByPath(newPath);
-          if (existingTarget && existingTarget !== existingFile) {
-            this.logger.warn(`Cannot rename "${currentName}" to "${targetName}" - target name already exists`);
-            new Notice(`⚠️ Cannot rename "${currentName}" to "${targetName}" - target name already exists`, 6000);
-          } else {
-            await this.app.vault.rename(existingFile, newPath);
-            this.logger.info(`Renamed file from "${currentName}" to "${targetName}"`);
-            new Notice(`📝 Renamed "${currentName}" to "${targetName}"`, 4000);
+      const written = await this.writeNoteContent(existingFile, existingContent, noteContent);
+      await this.renameToObjectName(existingFile, object);
+
+      return { file: existingFile, body: markdownContent, unchanged: !written && !renamePending };
+    }
+  }
+
+  /**
+   * Replace a note's content unless it already has it; compared by content hash, so line endings do not count
+   * Skipping the write keeps the mtime, other plugins' modify handlers and version control quiet. Returns whether it wrote
+   */
+  private async writeNoteContent(file: TFile, existingContent: string, content: string): Promise<boolean> {
+    if (TextProcessor.hashContent(existingContent) === TextProcessor.hashContent(content)) {
+      this.logger.debug(`Note "${file.basename}" already up to date, not rewriting it`);
+      return false;
+    }
+
+    await this.snapshotService?.capture(file);
+    await this.app.vault.process(file, () => content);
+    return true;
+  }
+
+  /**
+   * Rename file to match AnyType object name when SAFE import is disabled
+   * Goes through Obsidian's rename so links across the vault follow; the old name is kept as an alias
+   */
+  private async renameToObjectName(existingFile: TFile, object: AnyTypeObject): Promise<void> {
+    const currentName = existingFile.basename;
+    const targetName = TextProcessor.sanitizeFilename(object.name || 'Untitled');
+    const newPath = this.getObjectNamePath(existingFile, object);
+    
+    if (newPath) {
+      try {
+        // Check if target name already exists
+        const existingTarget = this.app.vault.getAbstractFileByPath(newPath);
+        if (existingTarget && existingTarget !== existingFile) {
+          this.logger.warn(`Cannot rename "${currentName}" to "${targetName}" - target name already exists`);
+          new Notice(`⚠️ Cannot rename "${currentName}" to "${targetName}" - target name already exists`, 6000);
+        } else {
+          const oldPath = existingFile.path;
+          await this.snapshotService?.capture(existingFile);
+          for (const linkingFile of this.getLinkingFiles(existingFile)) {
+            await this.snapshotService?.capture(linkingFile);
           }
-        } catch (error) {
-          this.logger.error(`Failed to rename file from "${currentName}" to "${targetName}": ${error.message}`);
-          new Notice(`⚠️ Failed to rename file: ${error.message}`, 6000);
+
+          await this.addAlias(existingFile, currentName);
+          this.pluginRenames.add(newPath);
+          try {
+            await this.app.fileManager.renameFile(existingFile, newPath);
+          } finally {
+            this.pluginRenames.delete(newPath);
+          }
+          this.snapshotService?.recordRename(oldPath, existingFile.path);
+          this.logger.info(`Renamed file from "${currentName}" to "${targetName}"`);
+          new Notice(`📝 Renamed "${currentName}" to "${targetName}"`, 4000);
         }
+      } catch (error) {
+        this.logger.error(`Failed to rename file from "${currentName}" to "${targetName}": ${error.message}`);
+        new Notice(`⚠️ Failed to rename file: ${error.message}`, 6000);
+      }
+    }
+  }
+
+  /**
+   * Path a note gets when renamed after its Anytype object, null when the name already matches
+   */
+  private getObjectNamePath(file: TFile, object: AnyTypeObject): string | null {
+    const targetName = TextProcessor.sanitizeFilename(object.name || 'Untitled');
+    if (file.basename === targetName) {
+      return null;
+    }
+    const parentPath = file.parent?.path || '';
+    return parentPath ? `${parentPath}/${targetName}.md` : `${targetName}.md`;
+  }
+
+  /**
+   * Notes with a resolved link to the given file, i.e. the notes a link-updating rename rewrites
+   */
+  private getLinkingFiles(file: TFile): TFile[] {
+    const linkingFiles: TFile[] = [];
+    for (const [sourcePath, links] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+      const source = this.app.vault.getAbstractFileByPath(sourcePath);
+      if (sourcePath !== file.path && links[file.path] && source instanceof TFile) {
+        linkingFiles.push(source);
+      }
+    }
+    return linkingFiles;
+  }
+
+  /**
+   * Keep a previous note name in the `aliases` frontmatter, so searches and unchanged links still find the note
+   */
+  private async addAlias(file: TFile, alias: string): Promise<void> {
+    await this.app.vault.process(file, content => {
+      const sections = FrontmatterProcessor.split(content);
+      const frontmatter = FrontmatterProcessor.parse(sections.frontmatter);
+      const current = frontmatter.aliases;
+      const aliases: string[] = Array.isArray(current) ? current.map(String) : (typeof current === 'string' && current ? [current] : []);
+      if (aliases.includes(alias)) {
+        return content;
       }
+
+      const updated = FrontmatterProcessor.update(sections.frontmatter || '', { aliases: [...aliases, alias] });
+      return FrontmatterProcessor.wrap(updated) + sections.body;
+    });
+  }
+
+  /**
+   * Give the Anytype object of a renamed linked note the note's new name
+   * Moves between folders and renames made by the plugin itself (imports, undo) are ignored; returns whether the object was renamed
+   */
+  async pushNoteRename(file: TFile, oldPath: string, apiKey: string): Promise<boolean> {
+    const oldName = oldPath.substring(oldPath.lastIndexOf('/') + 1).replace(/\.md$/, '');
+    const pluginRename = this.pluginRenames.has(file.path) || !!this.snapshotService?.isRestoring(file.path);
+    if (pluginRename || file.extension !== 'md' || oldName === file.basename) {
+      return false;
+    }
+
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const objectId = frontmatter?.id;
+    const spaceId = frontmatter?.space_id;
+    if (!objectId || !spaceId || frontmatter?.[ANYTYPE_STATUS_KEY]) {
+      return false;
     }
+
+    this.logger.info(`Renaming Anytype object ${objectId} from "${oldName}" to "${file.basename}"`);
+    await this.apiService.updateObjectWithProperties(spaceId, apiKey, objectId, { name: file.basename });
+
+    // The name is in sync now, so the next sync does not see the rename as a local change
+    const entry = this.syncLedger.get(objectId);
+    if (entry && entry.properties?.name !== undefined) {
+      this.syncLedger.record({ ...entry, path: file.path, properties: { ...entry.properties, name: file.basename } });
+      this.syncLedger.persist();
+    }
+    return true;
+  }
+
+  /**
+   * Construct full path with import folder
+   */
+  private getImportPath(filename: string, importFolder: string): string {
+    return importFolder.trim() 
+      ? normalizePath(`${importFolder.trim()}/${filename}.md`)
+      : normalizePath(`${filename}.md`);
   }
 
-  private async createNewNote(object: AnyTypeObject, yamlFrontmatter: string, importFolder: string = ''): Promise<void> {
-    const markdownContent = TextProcessor.convertAnyTypeLinksToWikilinks(object.markdown || '');
+  private async createNewNote(
+    object: AnyTypeObject,
+    yamlFrontmatter: string,
+    importFolder: string = '',
+    linkTargets?: Map<string, string>,
+    attachmentPaths?: Map<string, string>
+  ): Promise<{ file: TFile; body: string }> {
+    const markdownContent = this.convertRemoteBody(object, linkTargets, attachmentPaths);
     const noteContent = yamlFrontmatter + markdownContent;
     
-    const filenameResult = this.generateUniqueFilename(object.name || 'Untitled', importFolder);
-    
-    if (filenameResult.isManualNoteConflict) {
-      new Notice(`🔗 Name conflict: "${object.name}" already exists as a manual note. Created "${filenameResult.filename}" instead. Existing wikilinks may be broken.`, 10000);
+    // Links written by a two-pass import already point at the planned path, so use it while it is free
+    const plannedPath = linkTargets?.get(object.id);
+    let fullPath: string;
+    if (plannedPath && !this.app.vault.getAbstractFileByPath(plannedPath)) {
+      fullPath = plannedPath;
+    } else {
+      const filenameResult = this.generateUniqueFilename(object.name || 'Untitled', importFolder);
+      
+      if (filenameResult.isManualNoteConflict) {
+        new Notice(`🔗 Name conflict: "${object.name}" already exists as a manual note. Created "${filenameResult.filename}" instead. Existing wikilinks may be broken.`, 10000);
+      }
+      
+      fullPath = this.getImportPath(filenameResult.filename, importFolder);
     }
     
-    // Construct full path with import folder
-    const fullPath = importFolder.trim() 
-      ? normalizePath(`${importFolder.trim()}/${filenameResult.filename}.md`)
-      : normalizePath(`${filenameResult.filename}.md`);
-    
     // Ensure import folder exists if specified
     if (importFolder.trim()) {
       const folder = this.app.vault.getAbstractFileByPath(importFolder.trim());
@@ -493,7 +945,9 @@ export class SyncService {
     }
     
     this.logger.info(`Creating new note: ${fullPath}`);
-    await this.app.vault.create(fullPath, noteContent);
+    const file = await this.app.vault.create(fullPath, noteContent);
+    this.snapshotService?.recordCreate(file.path, object.id);
+    return { file, body: markdownContent };
   }
 
   async syncFromAnyType(spaceId: string, apiKey: string, options: SyncOptions = {}): Promise<SyncResult> {
@@ -503,31 +957,169 @@ export class SyncService {
       objectTypes = ['page'],
       resolveObjectLinks = true,
       safeImport = true,
-      importFolder = ''
+      importFolder = '',
+      signal,
+      onProgress
     } = options;
     
     this.logger.info('Starting sync from Anytype to Obsidian');
     this.logger.time('Sync From Anytype');
 
     const syncStats = this.initializeSyncStatistics(objectTypes);
-    updateStatusCallback?.('Starting real-time import from Anytype...');
-    
-    const onObjectProcessed = this.createObjectProcessorCallback(syncStats, skipSystemProperties, safeImport, importFolder, updateStatusCallback);
+    updateStatusCallback?.('Fetching objects from Anytype...');
     
     try {
-      await this.apiService.getAllObjects(spaceId, apiKey, objectTypes, onObjectProcessed, resolveObjectLinks);
+      // Pass 1: fetch every object and plan the path of its note, so links between imported objects can point at exact paths
+      const objects: AnyTypeObject[] = [];
+      await this.apiService.getAllObjects(spaceId, apiKey, objectTypes, async (object: AnyTypeObject) => {
+        objects.push(object);
+        onProgress?.({ phase: 'Fetching objects from Anytype', completed: objects.length, currentItem: object.name, counts: {} });
+        if (objects.length % 25 === 0) {
+          updateStatusCallback?.(`Fetched ${objects.length} objects from Anytype...`);
+        }
+      }, resolveObjectLinks, signal, (object) => {
+        // Objects that could not be fetched leave their notes alone and count as failed
+        syncStats.failed++;
+        if (syncStats.byType[object.type_key]) syncStats.byType[object.type_key].failed++;
+      });
+      const linkTargets = this.planImportPaths(objects, safeImport, importFolder);
+
+      // Pass 2: write the notes
+      const onObjectProcessed = this.createObjectProcessorCallback(syncStats, skipSystemProperties, safeImport, importFolder, updateStatusCallback, linkTargets);
+      for (let index = 0; index < objects.length; index++) {
+        OperationCancelledError.throwIfAborted(signal);
+        const { created, updated, unchanged, failed, conflicts } = syncStats;
+        onProgress?.({ phase: 'Writing notes', completed: index, total: objects.length, currentItem: objects[index].name, counts: { created, updated, unchanged, failed, conflicts } });
+        await onObjectProcessed(objects[index]);
+      }
       return this.finalizeSyncResults(syncStats, objectTypes);
     } catch (error) {
-      this.logger.error(`Sync from Anytype failed: ${error.message}`);
+      if (error instanceof OperationCancelledError) {
+        this.logger.info(`Sync from Anytype cancelled after ${syncStats.created + syncStats.updated + syncStats.unchanged + syncStats.failed} objects`);
+      } else {
+        this.logger.error(`Sync from Anytype failed: ${error.message}`);
+      }
       throw error;
+    } finally {
+      // Keep whatever was imported before a failure
+      this.syncLedger.persist();
+    }
+  }
+
+  /**
+   * First pass of an import: the path each object's note will have once the import is done (objectId → path)
+   * Starts from the notes already linked in the vault, so links to objects outside the import resolve too;
+   * new notes get the same unique names the second pass will create them with
+   */
+  private planImportPaths(objects: AnyTypeObject[], safeImport: boolean, importFolder: string): Map<string, string> {
+    const linkTargets = new Map<string, string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const objectId = this.app.metadataCache.getFileCache(file)?.frontmatter?.id;
+      if (typeof objectId === 'string' && objectId && !linkTargets.has(objectId)) {
+        linkTargets.set(objectId, file.path);
+      }
+    }
+
+    const reservedPaths = new Set<string>();
+    for (const object of objects) {
+      const existingPath = linkTargets.get(object.id);
+      const existingFile = existingPath ? this.app.vault.getAbstractFileByPath(existingPath) : null;
+      let path: string;
+
+      if (existingFile instanceof TFile) {
+        // Full Import renames notes after their object, unless the name is taken
+        const renamedPath = safeImport ? null : this.getObjectNamePath(existingFile, object);
+        path = renamedPath && !this.app.vault.getAbstractFileByPath(renamedPath) && !reservedPaths.has(renamedPath)
+          ? renamedPath
+          : existingFile.path;
+      } else {
+        const { filename } = this.generateUniqueFilename(object.name || 'Untitled', importFolder, reservedPaths);
+        path = this.getImportPath(filename, importFolder);
+      }
+
+      reservedPaths.add(path);
+      linkTargets.set(object.id, path);
+    }
+
+    this.logger.debug(`Planned note paths for ${objects.length} imported objects`);
+    return linkTargets;
+  }
+
+  /**
+   * Copy of an object whose `files` properties link to the vault copies of their files
+   */
+  private withAttachmentPaths(object: AnyTypeObject, attachmentPaths: Map<string, string>): AnyTypeObject {
+    const fileKeys = Object.keys(object.fileLinks || {}).filter(key => object.properties?.[key] !== undefined);
+    if (attachmentPaths.size === 0 || fileKeys.length === 0) {
+      return object;
+    }
+
+    const properties = { ...object.properties };
+    for (const key of fileKeys) {
+      properties[key] = (object.fileLinks || {})[key].map(fileId => {
+        const path = attachmentPaths.get(fileId);
+        return path ? `[[${path}]]` : fileId;
+      });
+    }
+    return { ...object, properties };
+  }
+
+  /**
+   * Anytype file id of a downloaded attachment a `[[link]]` in a `files` property points at
+   */
+  private resolveAttachmentId(linkTarget: string, sourcePath: string, attachmentPaths: Map<string, string>): string | null {
+    const file = this.app.metadataCache.getFirstLinkpathDest(linkTarget, sourcePath);
+    const path = file ? file.path : linkTarget;
+    for (const [fileId, attachmentPath] of attachmentPaths) {
+      if (attachmentPath === path) {
+        return fileId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Copy of an object whose `objects` properties link to the exact note paths of their targets
+   */
+  private withLinkTargets(object: AnyTypeObject, linkTargets: Map<string, string>): AnyTypeObject {
+    let properties: Record<string, any> | null = null;
+
+    for (const [key, objectIds] of Object.entries(object.objectLinks || {})) {
+      const current = object.properties?.[key];
+      const values = Array.isArray(current) ? current : [];
+      // Values and ids only line up while every id was converted
+      if (values.length !== objectIds.length) {
+        continue;
+      }
+
+      const linked = objectIds.map((objectId, index) => {
+        const targetPath = linkTargets.get(objectId);
+        if (!targetPath) {
+          return values[index];
+        }
+        // `[[Name]]` from the API, or `[[path|Name]]` when the value was linked before
+        const resolvedLink = typeof values[index] === 'string' ? values[index].replace(/^\[\[|\]\]$/g, '') : '';
+        const resolvedName = resolvedLink.substring(resolvedLink.lastIndexOf('|') + 1);
+        const displayName = resolvedName && resolvedName !== objectId
+          ? resolvedName
+          : targetPath.substring(targetPath.lastIndexOf('/') + 1).replace(/\.md$/, '');
+        return TextProcessor.buildPathWikilink(targetPath, displayName);
+      });
+
+      properties = properties || { ...object.properties };
+      properties[key] = linked;
     }
+
+    return properties ? { ...object, properties } : object;
   }
 
   private initializeSyncStatistics(objectTypes: string[]) {
     const syncStats = {
       created: 0,
       updated: 0, 
+      unchanged: 0,
       failed: 0,
+      conflicts: 0,
       byType: {} as Record<string, { created: number; updated: number; failed: number }>
     };
     
@@ -539,20 +1131,25 @@ export class SyncService {
   }
 
   private createObjectProcessorCallback(
-    syncStats: { created: number; updated: number; failed: number; byType: Record<string, { created: number; updated: number; failed: number }> }, 
+    syncStats: { created: number; updated: number; unchanged: number; failed: number; conflicts: number; byType: Record<string, { created: number; updated: number; failed: number }> }, 
     skipSystemProperties: boolean, 
     safeImport: boolean, 
     importFolder: string,
-    updateStatusCallback?: (status: string) => void
+    updateStatusCallback?: (status: string) => void,
+    linkTargets?: Map<string, string>
   ) {
     return async (object: AnyTypeObject) => {
       const objectType = object.type_key || 'unknown';
       
       try {
         const existingFile = this.findExistingFileByAnyTypeId(object.id);
-        await this.createOrUpdateObsidianNote(object, { skipSystemProperties, safeImport, importFolder });
+        const { conflicted, unchanged } = await this.createOrUpdateObsidianNote(object, { skipSystemProperties, safeImport, importFolder, linkTargets });
+        if (conflicted) syncStats.conflicts++;
         
-        if (existingFile) {
+        if (unchanged) {
+          syncStats.unchanged++;
+          this.logger.debug(`Unchanged ${objectType}: ${object.name}`);
+        } else if (existingFile) {
           syncStats.updated++;
           if (syncStats.byType[objectType]) syncStats.byType[objectType].updated++;
           this.logger.debug(`Updated ${objectType}: ${object.name}`);
@@ -562,12 +1159,15 @@ export class SyncService {
           this.logger.debug(`Created ${objectType}: ${object.name}`);
         }
 
-        const totalProcessed = syncStats.created + syncStats.updated;
+        const totalProcessed = syncStats.created + syncStats.updated + syncStats.unchanged;
         if (totalProcessed % 10 === 0) {
-          updateStatusCallback?.(`Imported ${totalProcessed} objects (${syncStats.created} new, ${syncStats.updated} updated)...`);
+          updateStatusCallback?.(`Imported ${totalProcessed} objects (${syncStats.created} new, ${syncStats.updated} updated, ${syncStats.unchanged} unchanged)...`);
         }
 
       } catch (error) {
+        if (error instanceof AnyTypeApiError && error.fatal) {
+          throw error;
+        }
         syncStats.failed++;
         if (syncStats.byType[objectType]) syncStats.byType[objectType].failed++;
         this.logger.error(`Failed to process ${objectType} ${object.name} (${object.id}): ${error.message}`);
@@ -576,11 +1176,11 @@ export class SyncService {
   }
 
   private finalizeSyncResults(
-    syncStats: { created: number; updated: number; failed: number; byType: Record<string, { created: number; updated: number; failed: number }> }, 
+    syncStats: { created: number; updated: number; unchanged: number; failed: number; conflicts: number; byType: Record<string, { created: number; updated: number; failed: number }> }, 
     objectTypes: string[]
   ): SyncResult {
-    const { created, updated, failed, byType } = syncStats;
-    const totalProcessed = created + updated + failed;
+    const { created, updated, unchanged, failed, conflicts, byType } = syncStats;
+    const totalProcessed = created + updated + unchanged + failed;
     
     this.logger.info(`Retrieved and processed ${totalProcessed} objects from Anytype`);
     
@@ -590,7 +1190,7 @@ export class SyncService {
     }
 
     this.logger.timeEnd('Sync From Anytype');
-    this.logger.info(`Sync from Anytype complete: ${created} created, ${updated} updated, ${failed} failed`);
+    this.logger.info(`Sync from Anytype complete: ${created} created, ${updated} updated, ${unchanged} unchanged, ${failed} failed, ${conflicts} conflicts`);
     
     for (const [type, stats] of Object.entries(byType)) {
       if (stats.created + stats.updated + stats.failed > 0) {
@@ -598,13 +1198,27 @@ export class SyncService {
       }
     }
     
-    return { created, updated, failed, byType, objectTypes };
+    return { created, updated, unchanged, failed, conflicts, byType, objectTypes };
   }
 
   async pushToAnyTypeWithProperties(spaceId: string, apiKey: string, skipSystemProperties = true, updateStatusCallback?: (status: string) => void): Promise<AnyTypeObject> {
     this.validateAuthInputs(spaceId, apiKey);
+    return this.createObjectFromNote(this.getActiveNoteFile(), spaceId, apiKey, skipSystemProperties, updateStatusCallback);
+  }
 
-    const file = this.getActiveNoteFile();
+  /**
+   * Create an Anytype object from an unlinked note and link the note to it
+   * `typeKey` is used when the note has no `type_key` frontmatter; bulk pushes pass the space properties they already loaded
+   * With `linkedNotes`, unlinked notes the body links to are pushed first, `linkDepth` hops deep (default: the operation's depth)
+   */
+  private async createObjectFromNote(
+    file: TFile,
+    spaceId: string,
+    apiKey: string,
+    skipSystemProperties: boolean,
+    updateStatusCallback?: (status: string) => void,
+    options: { typeKey?: string; availableProperties?: AnyTypeProperty[]; linkedNotes?: LinkedNotePush; linkDepth?: number } = {}
+  ): Promise<AnyTypeObject> {
     this.logger.info(`Starting enhanced push to Anytype with properties for note: ${file.basename}`);
     this.logger.time('Push To Anytype With Properties');
 
@@ -624,45 +1238,43 @@ export class SyncService {
         throw new Error('Note already exists in Anytype. Use sync instead.');
       }
 
-      updateStatusCallback?.('Fetching available properties from Anytype...');
-      
-      // Get available properties to validate against
-      const availableProperties = await this.apiService.listProperties(spaceId, apiKey);
-      this.logger.debug(`Found ${availableProperties.length} available properties in space`);
+      let availableProperties = options.availableProperties;
+      if (!availableProperties) {
+        updateStatusCallback?.('Fetching available properties from Anytype...');
+        
+        // Get available properties to validate against
+        availableProperties = await this.apiService.listProperties(spaceId, apiKey);
+        this.logger.debug(`Found ${availableProperties.length} available properties in space`);
 
-      // Load tags for select/multi_select properties
-      await this.loadTagsForSelectProperties(spaceId, apiKey, availableProperties);
-      
-      // Debug: Log tag cache status
-      const tagStats = this.tagResolver.getCacheStats();
-      this.logger.debug(`Tag cache status: ${tagStats.properties} properties with ${tagStats.totalTags} total tags cached`);
+        // Load tags for select/multi_select properties
+        await this.loadTagsForSelectProperties(spaceId, apiKey, availableProperties);
+        
+        // Debug: Log tag cache status
+        const tagStats = this.tagResolver.getCacheStats();
+        this.logger.debug(`Tag cache status: ${tagStats.properties} properties with ${tagStats.totalTags} total tags cached`);
+      }
 
       updateStatusCallback?.('Creating object with properties in Anytype...');
 
       // Extract content without existing frontmatter if present
-      let markdownContent = content;
-      let noteFrontmatter = {};
+      const sections = FrontmatterProcessor.split(content);
+      let markdownContent = sections.body.trim();
+      let noteFrontmatter: Record<string, any> = {};
       let customObsidianProperties = {};
       
-      if (content.startsWith('---')) {
-        const frontmatterEndIndex = content.indexOf('---', 3);
-        if (frontmatterEndIndex !== -1) {
-          const frontmatterText = content.substring(3, frontmatterEndIndex).trim();
-          markdownContent = content.substring(frontmatterEndIndex + 3).trim();
-          
-          // Parse existing frontmatter to extract properties
-          try {
-            noteFrontmatter = this.parseFrontmatter(frontmatterText);
-            this.logger.debug(`Parsed frontmatter with ${Object.keys(noteFrontmatter).length} properties`);
-            
-            // Extract custom Obsidian properties that should be preserved
-            customObsidianProperties = this.extractCustomObsidianProperties(noteFrontmatter, availableProperties);
-          } catch (error) {
-            this.logger.warn(`Failed to parse frontmatter: ${error.message}`);
-          }
+      if (sections.frontmatter !== null) {
+        // Parse existing frontmatter to extract properties
+        try {
+          noteFrontmatter = FrontmatterProcessor.parse(sections.frontmatter);
+          this.logger.debug(`Parsed frontmatter with ${Object.keys(noteFrontmatter).length} properties`);
           
-          this.logger.debug(`Extracted markdown content without frontmatter, length: ${markdownContent.length}`);
+          // Extract custom Obsidian properties that should be preserved
+          customObsidianProperties = this.extractCustomObsidianProperties(noteFrontmatter, availableProperties);
+        } catch (error) {
+          this.logger.warn(`Failed to parse frontmatter: ${error.message}`);
         }
+        
+        this.logger.debug(`Extracted markdown content without frontmatter, length: ${markdownContent.length}`);
       }
 
       // Validate extracted content
@@ -672,7 +1284,12 @@ export class SyncService {
       }
 
       // Build validated properties array for API request
-      const validatedProperties = this.buildValidatedProperties(noteFrontmatter, availableProperties, { skipSystemProperties });
+      const attachmentPaths = await this.getPushAttachments(noteFrontmatter, availableProperties, file.path, spaceId, true);
+      const validatedProperties = this.buildValidatedProperties(noteFrontmatter, availableProperties, {
+        skipSystemProperties,
+        resolveObjectLink: (linkTarget: string) => this.wikilinkResolver.resolveObjectId(linkTarget, spaceId, file.path),
+        resolveFileLink: (linkTarget: string) => this.resolveAttachmentId(linkTarget, file.path, attachmentPaths)
+      });
       this.logger.debug(`Built ${validatedProperties.length} validated properties for object creation`);
       
       // Log each property being sent for debugging
@@ -683,20 +1300,28 @@ export class SyncService {
         });
       }
 
-      // Convert wikilinks to Anytype object URLs before sending to Anytype
+      if (options.linkedNotes) {
+        options.linkedNotes.visited.add(file.path);
+        const linkDepth = options.linkDepth !== undefined ? options.linkDepth : options.linkedNotes.depth;
+        await this.pushLinkedNotes(markdownContent, file.path, spaceId, apiKey, skipSystemProperties, availableProperties, options.linkedNotes, linkDepth);
+      }
+
+      // Attachments become links to their Anytype files, then wikilinks to Anytype object URLs before sending to Anytype
+      const markdownWithFiles = await this.exportAttachments(markdownContent, file.path, spaceId, true);
       updateStatusCallback?.('Converting wikilinks to Anytype object links...');
       const processedMarkdown = TextProcessor.convertWikilinksToAnyTypeUrls(
-        markdownContent, 
+        markdownWithFiles,
         this.wikilinkResolver, 
-        spaceId
+        spaceId,
+        file.path
       );
       
       if (processedMarkdown !== markdownContent) {
         this.logger.info('Converted wikilinks to Anytype object URLs for push to Anytype');
       }
 
-      // Get object type from frontmatter, default to 'page'
-      const typeKey = (noteFrontmatter as any).type_key || 'page';
+      // Get object type from frontmatter, then the caller's choice, default to 'page'
+      const typeKey = (noteFrontmatter as any).type_key || options.typeKey || 'page';
       this.logger.debug(`Using object type: ${typeKey}`);
 
       // Create object in Anytype with properties
@@ -708,10 +1333,11 @@ export class SyncService {
       };
 
       const createdObject = await this.apiService.createObject(spaceId, apiKey, objectData);
+      this.wikilinkResolver.registerObject(file.path, createdObject.id, spaceId);
       
       // Update the note's frontmatter with Anytype information and all properties
       updateStatusCallback?.('Updating note frontmatter with object data...');
-      const newFrontmatter = this.generateYamlFrontmatter(createdObject, skipSystemProperties, customObsidianProperties);
+      const newFrontmatter = this.generateYamlFrontmatter(createdObject, skipSystemProperties, customObsidianProperties, sections.frontmatter);
       
       // Log frontmatter generation details
       const propertyCount = Object.keys(createdObject.properties || {}).length;
@@ -726,7 +1352,9 @@ export class SyncService {
       
       const newContent = newFrontmatter + markdownContent;
       
+      await this.snapshotService?.capture(file);
       await this.app.vault.process(file, () => newContent);
+      await this.recordSyncState(file, createdObject, markdownContent, skipSystemProperties);
       this.logger.info(`Successfully updated note with Anytype metadata and properties`);
 
       this.logger.timeEnd('Push To Anytype With Properties');
@@ -740,51 +1368,78 @@ export class SyncService {
     }
   }
 
+  /**
+   * Create objects for the unlinked notes `markdown` links to, up to `depth` links away
+   * A note that fails to push only keeps its link as text; the failure does not stop the note linking to it and is reported with the operation
+   */
+  private async pushLinkedNotes(
+    markdown: string,
+    sourcePath: string,
+    spaceId: string,
+    apiKey: string,
+    skipSystemProperties: boolean,
+    availableProperties: AnyTypeProperty[],
+    linkedNotes: LinkedNotePush,
+    depth: number
+  ): Promise<void> {
+    if (depth <= 0) {
+      return;
+    }
 
-  async syncNoteToAnyType(file: TFile, fallbackSpaceId: string, apiKey: string, skipSystemProperties = true): Promise<void> {
-    this.logger.info(`Enhanced syncing note to Anytype with properties: ${file.basename}`);
+    const targets = this.wikilinkResolver.getUnlinkedTargets(markdown, sourcePath)
+      .filter(target => !target.path.endsWith('.conflict.md'));
 
-    try {
-      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-      
-      // Check if file has Anytype id and type_key (both required for sync)
-      const objectId = frontmatter.id;
-      const objectType = frontmatter['type_key'];
-      
-      if (!objectId) {
-        throw new Error(`File "${file.basename}" missing required 'id' property in frontmatter`);
+    for (const target of targets) {
+      // Already pushed or being pushed further up the chain (a link cycle)
+      if (linkedNotes.visited.has(target.path)) {
+        continue;
       }
-      
-      if (!objectType) {
-        throw new Error(`File "${file.basename}" missing required 'type_key' property in frontmatter`);
+      linkedNotes.visited.add(target.path);
+
+      try {
+        this.logger.info(`Pushing linked note "${target.path}" before "${sourcePath}"`);
+        await this.createObjectFromNote(target, spaceId, apiKey, skipSystemProperties, undefined, {
+          typeKey: this.getMappedType(target.path, linkedNotes.folderTypeMapping) || undefined,
+          availableProperties,
+          linkedNotes,
+          linkDepth: depth - 1
+        });
+        linkedNotes.created.push(target.path);
+      } catch (error) {
+        if (error instanceof AnyTypeApiError && error.fatal) {
+          throw error;
+        }
+        linkedNotes.failed.push({ path: target.path, error: error.message });
+        this.logger.error(`Failed to push linked note ${target.path}: ${error.message}`);
       }
-      
-      // Use space_id from note's frontmatter if it exists, otherwise use fallback (settings)
-      const noteSpaceId = frontmatter.space_id;
-      const targetSpaceId = (noteSpaceId && typeof noteSpaceId === 'string' && noteSpaceId.trim().length > 0) 
-        ? noteSpaceId.trim() 
-        : fallbackSpaceId;
-      
-      this.logger.info(`Using space ID for enhanced sync: ${targetSpaceId} ${noteSpaceId ? '(from note)' : '(from settings)'}`);
-      
-      // Get available properties to validate against
-      const availableProperties = await this.apiService.listProperties(targetSpaceId, apiKey);
-      this.logger.debug(`Found ${availableProperties.length} available properties for validation`);
+    }
+  }
 
-      // Load tags for select/multi_select properties
-      await this.loadTagsForSelectProperties(targetSpaceId, apiKey, availableProperties);
+  private createLinkedNotePush(depth = 0, folderTypeMapping: Record<string, string> = {}): LinkedNotePush {
+    return { depth, visited: new Set(), created: [], failed: [], folderTypeMapping };
+  }
 
-      // Extract custom Obsidian properties before sync to preserve them
-      const customObsidianProperties = this.extractCustomObsidianProperties(frontmatter, availableProperties);
+  async syncNoteToAnyType(
+    file: TFile,
+    fallbackSpaceId: string,
+    apiKey: string,
+    skipSystemProperties = true,
+    spaceProperties?: AnyTypeProperty[],
+    bodyOptions: PushBodyOptions = {}
+  ): Promise<{ conflicted: boolean }> {
+    this.logger.info(`Enhanced syncing note to Anytype with properties: ${file.basename}`);
 
-      // Extract and validate properties from frontmatter
-      const validatedProperties = this.extractPropertiesFromFrontmatter(frontmatter, availableProperties, { skipSystemProperties });
-      this.logger.debug(`Extracted ${validatedProperties.length} validated properties from frontmatter`);
+    try {
+      const {
+        frontmatter, objectId, targetSpaceId, availableProperties, customObsidianProperties,
+        currentObject, conflicts, validatedProperties, bodyToPush, conflictBody, pulledBody, attachmentPaths
+      } = await this.preparePush(file, fallbackSpaceId, apiKey, skipSystemProperties, spaceProperties, { ...bodyOptions, uploadAttachments: true });
 
-      // Enhanced sync: Update name + properties in Anytype
+      // Enhanced sync: Update name + properties (and body when enabled) in Anytype; the object keeps its id
       const updatedObject = await this.apiService.updateObjectWithProperties(targetSpaceId, apiKey, objectId, {
         name: file.basename,
-        properties: validatedProperties.length > 0 ? validatedProperties : undefined
+        properties: validatedProperties.length > 0 ? validatedProperties : undefined,
+        markdown: bodyToPush !== null ? bodyToPush : undefined
       });
       
       if (!updatedObject) {
@@ -801,9 +1456,15 @@ export class SyncService {
       // Fetch the complete updated object with wikilink resolution (same as import)
       this.logger.info(`Fetching complete updated object with wikilink resolution from Anytype`);
       const completeUpdatedObject = await this.apiService.getObjectWithWikilinks(targetSpaceId, apiKey, objectId);
+
+      // Older local API versions accept the PATCH but ignore the markdown field; the note is not recorded as synced then
+      if (bodyToPush !== null && currentObject &&
+          TextProcessor.hashContent(completeUpdatedObject.markdown || '') === TextProcessor.hashContent(currentObject.markdown || '')) {
+        throw new Error(`Anytype did not update the body of "${file.basename}": this version of the local API cannot change the body of an existing object. Update the Anytype app or turn off "Push note body"`);
+      }
       
-      // Enhance object with tag name resolution using already loaded properties and tags
-      const enhancedCompleteObject = this.enhanceObjectWithTagResolution(completeUpdatedObject, availableProperties);
+      // Enhance object with tag name resolution using already loaded properties and tags, files point at their vault copies
+      const enhancedCompleteObject = this.withAttachmentPaths(this.enhanceObjectWithTagResolution(completeUpdatedObject, availableProperties), attachmentPaths);
       
       // Ensure name consistency in the complete object as well
       if (enhancedCompleteObject.name !== file.basename) {
@@ -813,25 +1474,33 @@ export class SyncService {
       
       // Update note frontmatter with fresh properties from Anytype response AND preserved custom properties
       this.logger.info(`Updating note frontmatter with refreshed properties, wikilinks from Anytype, and preserved custom properties`);
-      const updatedFrontmatter = this.generateYamlFrontmatter(enhancedCompleteObject, skipSystemProperties, customObsidianProperties);
-      
+      // Conflicting properties keep their Obsidian value until the user resolves them
+      const noteObject = this.withLocalPropertyValues(enhancedCompleteObject, frontmatter, conflicts.map(conflict => conflict.key));
       // Read current content and replace frontmatter
-      const currentContent = await this.app.vault.read(file);
-      let markdownContent = currentContent;
-      
-      // Extract markdown content without frontmatter
-      if (currentContent.startsWith('---')) {
-        const frontmatterEndIndex = currentContent.indexOf('---', 3);
-        if (frontmatterEndIndex !== -1) {
-          markdownContent = currentContent.substring(frontmatterEndIndex + 3).trim();
-        }
-      }
+      const currentSections = FrontmatterProcessor.split(await this.app.vault.read(file));
+      const markdownContent = pulledBody !== null ? pulledBody : currentSections.body;
+      const updatedFrontmatter = this.generateYamlFrontmatter(noteObject, skipSystemProperties, customObsidianProperties, currentSections.frontmatter);
       
       const newContent = updatedFrontmatter + markdownContent;
+      await this.snapshotService?.capture(file);
       await this.app.vault.process(file, () => newContent);
 
+      const conflicted = conflicts.length > 0 || conflictBody !== null;
+      if (conflicted) {
+        if (conflicts.length > 0) {
+          this.logger.warn(`Property conflicts in "${file.basename}": ${conflicts.map(conflict => conflict.key).join(', ')}`);
+        }
+        await this.writeConflictFile(file, conflicts, conflictBody);
+      }
+      // On a body conflict the Anytype body becomes the base, so the kept Obsidian body counts as a pending change
+      await this.recordSyncState(file, enhancedCompleteObject, conflictBody !== null ? conflictBody : markdownContent, skipSystemProperties, {
+        remoteMarkdown: completeUpdatedObject.markdown || '',
+        pendingPush: conflicted
+      });
+
       const customCount = Object.keys(customObsidianProperties).length;
-      this.logger.info(`Successfully synced note "${file.basename}" to Anytype with ${validatedProperties.length} properties, preserved ${customCount} custom Obsidian properties, and refreshed frontmatter`);
+      this.logger.info(`Successfully synced note "${file.basename}" to Anytype with ${validatedProperties.length} properties${bodyToPush !== null ? ' and body' : ''}, preserved ${customCount} custom Obsidian properties, and refreshed frontmatter`);
+      return { conflicted };
 
     } catch (error) {
       this.logger.error(`Enhanced sync failed for ${file.basename}: ${error.message}`);
@@ -839,6 +1508,122 @@ export class SyncService {
     }
   }
 
+  /**
+   * Work out what pushing a note would send to Anytype, without changing anything
+   * The exception is `linkedNotes`: unlinked notes the pushed body links to are created first, so their links convert
+   */
+  private async preparePush(
+    file: TFile,
+    fallbackSpaceId: string,
+    apiKey: string,
+    skipSystemProperties: boolean,
+    spaceProperties: AnyTypeProperty[] | undefined,
+    bodyOptions: PushBodyOptions
+  ): Promise<PreparedPush> {
+    const { pushNoteBody = false, safeImport = true } = bodyOptions;
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    
+    // Check if file has Anytype id and type_key (both required for sync)
+    const objectId = frontmatter.id;
+    const objectType = frontmatter['type_key'];
+    
+    if (!objectId) {
+      throw new Error(`File "${file.basename}" missing required 'id' property in frontmatter`);
+    }
+    
+    if (!objectType) {
+      throw new Error(`File "${file.basename}" missing required 'type_key' property in frontmatter`);
+    }
+    
+    // Use space_id from note's frontmatter if it exists, otherwise use fallback (settings)
+    const noteSpaceId = frontmatter.space_id;
+    const targetSpaceId = (noteSpaceId && typeof noteSpaceId === 'string' && noteSpaceId.trim().length > 0) 
+      ? noteSpaceId.trim() 
+      : fallbackSpaceId;
+    
+    this.logger.info(`Using space ID for enhanced sync: ${targetSpaceId} ${noteSpaceId ? '(from note)' : '(from settings)'}`);
+    
+    // Get available properties to validate against (bulk sync passes them in once per space)
+    const availableProperties = spaceProperties || await this.apiService.listProperties(targetSpaceId, apiKey);
+    this.logger.debug(`Found ${availableProperties.length} available properties for validation`);
+
+    // Load tags for select/multi_select properties
+    await this.loadTagsForSelectProperties(targetSpaceId, apiKey, availableProperties);
+
+    // Extract custom Obsidian properties before sync to preserve them
+    const customObsidianProperties = this.extractCustomObsidianProperties(frontmatter, availableProperties);
+
+    // Three-way merge against the last synced state so Anytype-side edits are not reverted
+    const ledgerEntry = this.syncLedger.get(objectId);
+    const attachmentPaths = await this.getPushAttachments(frontmatter, availableProperties, file.path, targetSpaceId, !!bodyOptions.uploadAttachments);
+    let pushFrontmatter: Record<string, any> = frontmatter;
+    let currentObject: AnyTypeObject | null = null;
+    let conflicts: PropertyConflict[] = [];
+    if (ledgerEntry) {
+      currentObject = this.withAttachmentPaths(this.enhanceObjectWithTagResolution(
+        await this.apiService.getObjectWithWikilinks(targetSpaceId, apiKey, objectId), availableProperties), attachmentPaths);
+      const remoteFrontmatter = this.buildAnytypeFrontmatter(currentObject, skipSystemProperties);
+      const merge = ConflictResolver.mergeProperties(ledgerEntry.properties || {}, frontmatter, remoteFrontmatter);
+      conflicts = merge.conflicts;
+
+      const heldBackKeys = [...merge.remoteChanges, ...conflicts.map(conflict => conflict.key)];
+      if (heldBackKeys.length > 0) {
+        this.logger.info(`Not pushing properties changed in Anytype since the last sync: ${heldBackKeys.join(', ')}`);
+        pushFrontmatter = { ...frontmatter };
+        heldBackKeys.forEach(key => delete pushFrontmatter[key]);
+      }
+    }
+
+    // Extract and validate properties from frontmatter
+    const validatedProperties = this.extractPropertiesFromFrontmatter(pushFrontmatter, availableProperties, {
+      skipSystemProperties,
+      resolveObjectLink: (linkTarget: string) => this.wikilinkResolver.resolveObjectId(linkTarget, targetSpaceId, file.path),
+      resolveFileLink: (linkTarget: string) => this.resolveAttachmentId(linkTarget, file.path, attachmentPaths)
+    });
+    this.logger.debug(`Extracted ${validatedProperties.length} validated properties from frontmatter`);
+
+    // Decide whether the body goes along with this push; Anytype-side body edits are merged whether or not bodies are pushed
+    const localBody = this.extractNoteBody(await this.app.vault.read(file));
+    let bodyToPush: string | null = null;
+    let conflictBody: string | null = null;
+    let pulledBody: string | null = null;
+    const remoteBody = currentObject ? TextProcessor.convertAnyTypeLinksToWikilinks(currentObject.markdown || '') : '';
+    const outcome = currentObject && ledgerEntry
+      ? ConflictResolver.mergeBody(localBody, remoteBody, ledgerEntry.contentHash, ledgerEntry.remoteContentHash || '')
+      : 'local';
+
+    if (outcome === 'conflict') {
+      conflictBody = remoteBody;
+      this.logger.warn(`Body conflict in "${file.basename}": both Obsidian and Anytype changed since the last sync, body not pushed`);
+    } else if (outcome === 'remote' && currentObject && ledgerEntry && ledgerEntry.remoteContentHash &&
+        TextProcessor.hashContent(remoteBody) !== ledgerEntry.remoteContentHash && TextProcessor.hashContent(remoteBody) !== TextProcessor.hashContent(localBody)) {
+      // Only Anytype changed the body; the push records its body as synced, so it has to reach the note now
+      if (safeImport) {
+        conflictBody = remoteBody;
+        this.logger.warn(`Body of "${file.basename}" changed in Anytype, Safe Import keeps the note body - Anytype body written to the conflict file`);
+      } else {
+        pulledBody = this.convertRemoteBody(currentObject, undefined, attachmentPaths);
+        this.logger.info(`Body of "${file.basename}" changed only in Anytype, updating the note body`);
+      }
+    } else if (pushNoteBody) {
+      if (outcome === 'local') {
+        if (bodyOptions.linkedNotes) {
+          bodyOptions.linkedNotes.visited.add(file.path);
+          await this.pushLinkedNotes(localBody, file.path, targetSpaceId, apiKey, skipSystemProperties, availableProperties, bodyOptions.linkedNotes, bodyOptions.linkedNotes.depth);
+        }
+        const bodyWithFiles = await this.exportAttachments(localBody, file.path, targetSpaceId, !!bodyOptions.uploadAttachments);
+        bodyToPush = TextProcessor.convertWikilinksToAnyTypeUrls(bodyWithFiles, this.wikilinkResolver, targetSpaceId, file.path);
+      } else {
+        this.logger.debug(`Body of "${file.basename}" unchanged in Obsidian since the last sync, not pushing it`);
+      }
+    }
+
+    return {
+      frontmatter, objectId, objectType, targetSpaceId, availableProperties, customObsidianProperties,
+      currentObject, conflicts, validatedProperties, localBody, bodyToPush, conflictBody, pulledBody, attachmentPaths
+    };
+  }
+
   private validateAuthInputs(spaceId: string, apiKey: string): void {
     Validation.validateApiInputs(spaceId, apiKey);
   }
@@ -883,7 +1668,7 @@ export class SyncService {
   }
 
   generateImportSummary(result: SyncResult): string {
-    const totalProcessed = result.created + result.updated + (result.failed || 0);
+    const totalProcessed = result.created + result.updated + (result.unchanged || 0) + (result.failed || 0);
     
     if (totalProcessed === 0) {
       return `Import Complete\n\nNo objects found in Anytype space.`;
@@ -897,7 +1682,9 @@ export class SyncService {
     const stats: string[] = [];
     if (result.created > 0) stats.push(`✅ ${result.created} created`);
     if (result.updated > 0) stats.push(`🔄 ${result.updated} updated`);
+    if (result.unchanged && result.unchanged > 0) stats.push(`⏸️ ${result.unchanged} unchanged`);
     if (result.failed && result.failed > 0) stats.push(`❌ ${result.failed} failed`);
+    if (result.conflicts && result.conflicts > 0) stats.push(`⚠️ ${result.conflicts} conflicts (see .conflict.md files)`);
     
     if (stats.length > 0) {
       summary += stats.join('\n') + '\n';
@@ -936,9 +1723,11 @@ export class SyncService {
     return summary.trim();
   }
 
-  async smartSync(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback'> = {}): Promise<{ action: 'create' | 'sync', result: AnyTypeObject | boolean }> {
-    const { skipSystemProperties = true, updateStatusCallback } = options;
+  async smartSync(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'pushNoteBody' | 'linkedNotesDepth' | 'safeImport'> = {}): Promise<{ action: 'create' | 'sync', result: AnyTypeObject | boolean, conflicted?: boolean, linkIssues?: LinkIssue[], linkedNotesCreated?: string[], linkedNotesFailed?: { path: string; error: string }[] }> {
+    const { skipSystemProperties = true, updateStatusCallback, pushNoteBody, linkedNotesDepth, safeImport } = options;
     this.validateAuthInputs(spaceId, apiKey);
+    this.wikilinkResolver.drainIssues();
+    const linkedNotes = this.createLinkedNotePush(linkedNotesDepth);
 
     const file = this.getActiveNoteFile();
     
@@ -967,16 +1756,18 @@ export class SyncService {
         this.logger.info(`Note "${file.basename}" has Anytype metadata, performing sync`);
         updateStatusCallback?.('🔄 Syncing existing note with properties to Anytype...');
         
-        await this.syncNoteToAnyType(file, spaceId.trim(), apiKey.trim(), skipSystemProperties);
-        return { action: 'sync', result: true };
+        const { conflicted } = await this.syncNoteToAnyType(file, spaceId.trim(), apiKey.trim(), skipSystemProperties, undefined, { pushNoteBody, safeImport, linkedNotes });
+        this.syncLedger.persist();
+        return { action: 'sync', result: true, conflicted, linkIssues: this.wikilinkResolver.drainIssues(), linkedNotesCreated: linkedNotes.created, linkedNotesFailed: linkedNotes.failed };
         
       } else {
         // Note doesn't have object_id and space_id - create new object with properties
         this.logger.info(`Note "${file.basename}" missing Anytype metadata, creating new object with properties`);
         updateStatusCallback?.('✨ Creating new Anytype object with properties...');
         
-        const createdObject = await this.pushToAnyTypeWithProperties(spaceId.trim(), apiKey.trim(), skipSystemProperties, updateStatusCallback);
-        return { action: 'create', result: createdObject };
+        const createdObject = await this.createObjectFromNote(file, spaceId.trim(), apiKey.trim(), skipSystemProperties, updateStatusCallback, { linkedNotes });
+        this.syncLedger.persist();
+        return { action: 'create', result: createdObject, linkIssues: this.wikilinkResolver.drainIssues(), linkedNotesCreated: linkedNotes.created, linkedNotesFailed: linkedNotes.failed };
       }
     } catch (error) {
       this.logger.error(`Smart sync failed for note "${file.basename}": ${error.message}`);
@@ -984,11 +1775,13 @@ export class SyncService {
     }
   }
 
-  async syncAllNotes(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback'> = {}): Promise<SyncResult> {
-    const { skipSystemProperties = true, updateStatusCallback } = options;
+  async syncAllNotes(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'safeImport' | 'importFolder' | 'incremental' | 'pushNoteBody' | 'linkedNotesDepth' | 'signal' | 'onProgress'> = {}): Promise<SyncResult> {
+    const { skipSystemProperties = true, updateStatusCallback, safeImport = true, importFolder = '', incremental = true, pushNoteBody, linkedNotesDepth, signal, onProgress } = options;
     this.validateAuthInputs(spaceId, apiKey);
+    this.wikilinkResolver.drainIssues();
+    const linkedNotes = this.createLinkedNotePush(linkedNotesDepth);
 
-    this.logger.info('Starting sync all notes with Anytype metadata');
+    this.logger.info(`Starting ${incremental ? 'incremental ' : ''}sync all notes with Anytype metadata`);
     this.logger.time('Sync All Notes');
 
     // Find notes that have both object_id and space_id
@@ -997,71 +1790,462 @@ export class SyncService {
 
     if (eligibleFiles.length === 0) {
       this.logger.warn('No notes found with Anytype metadata (object_id and space_id)');
-      return { created: 0, updated: 0, failed: 0, skipped: totalFiles };
+      return { created: 0, updated: 0, failed: 0, skipped: totalFiles, unchanged: 0, pulled: 0, conflicts: 0 };
     }
 
     let synced = 0;
+    let pulled = 0;
+    let unchanged = 0;
+    let conflicts = 0;
     let failed = 0;
     const skipped = totalFiles - eligibleFiles.length;
 
+    // Properties are loaded once per space instead of once per note
+    const propertiesBySpace = new Map<string, AnyTypeProperty[]>();
+    onProgress?.({ phase: 'Checking Anytype for remote changes', completed: 0, counts: {} });
+    const remoteModifiedDates = incremental
+      ? await this.collectRemoteModifiedDates(eligibleFiles, apiKey, updateStatusCallback, signal)
+      : new Map<string, string | null>();
+
     updateStatusCallback?.(`Syncing ${eligibleFiles.length} notes with properties to Anytype...`);
 
-    for (let index = 0; index < eligibleFiles.length; index++) {
-      const file = eligibleFiles[index];
-      try {
-        await this.syncNoteToAnyType(file, spaceId, apiKey, skipSystemProperties);
-        synced++;
+    try {
+      for (let index = 0; index < eligibleFiles.length; index++) {
+        OperationCancelledError.throwIfAborted(signal);
+        const file = eligibleFiles[index];
+        onProgress?.({ phase: 'Syncing notes', completed: index, total: eligibleFiles.length, currentItem: file.basename, counts: { pushed: synced, pulled, unchanged, conflicts, failed } });
+        try {
+          const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+          const objectId: string = frontmatter.id;
+          const noteSpaceId: string = frontmatter.space_id.trim();
+          const ledgerEntry = this.syncLedger.get(objectId);
+
+          const action = await this.decideSyncAction(file, ledgerEntry, incremental, remoteModifiedDates.get(objectId));
+
+          if (action === 'none') {
+            unchanged++;
+            this.logger.debug(`Unchanged since last sync: ${file.basename}`);
+          } else {
+            const availableProperties = await this.getSpaceProperties(noteSpaceId, apiKey, propertiesBySpace);
+
+            if (action === 'push') {
+              const { conflicted } = await this.syncNoteToAnyType(file, spaceId, apiKey, skipSystemProperties, availableProperties, { pushNoteBody, safeImport, linkedNotes });
+              if (conflicted) conflicts++;
+              synced++;
+            } else {
+              const { conflicted, unchanged: noteUnchanged } = await this.pullObjectToNote(objectId, noteSpaceId, apiKey, availableProperties, { skipSystemProperties, safeImport, importFolder });
+              if (conflicted) conflicts++;
+              if (noteUnchanged) {
+                unchanged++;
+              } else {
+                pulled++;
+              }
+            }
+          }
         
-        if ((index + 1) % 5 === 0) {
-          updateStatusCallback?.(`Synced ${index + 1}/${eligibleFiles.length} notes...`);
+          if ((index + 1) % 5 === 0) {
+            updateStatusCallback?.(`Synced ${index + 1}/${eligibleFiles.length} notes...`);
+          }
+
+        } catch (error) {
+          if (error instanceof AnyTypeApiError && error.fatal) {
+            throw error;
+          }
+          failed++;
+          this.logger.error(`Failed to sync ${file.basename}: ${error.message}`);
+        }
+      }
+    } finally {
+      // Notes synced before a cancellation keep their ledger entries
+      this.syncLedger.persist();
+    }
+
+    this.logger.timeEnd('Sync All Notes');
+    this.logger.info(`Sync all notes complete: ${synced} pushed, ${pulled} pulled, ${unchanged} unchanged, ${conflicts} conflicts, ${failed} failed, ${skipped} skipped`);
+
+    return { created: 0, updated: synced, failed: failed + linkedNotes.failed.length, skipped, unchanged, pulled, conflicts, linkIssues: this.wikilinkResolver.drainIssues(), linkedNotesCreated: linkedNotes.created, linkedNotesFailed: linkedNotes.failed };
+  }
+
+  /**
+   * Which way Sync All moves a linked note; without a ledger entry there is nothing to compare against, so it is pushed
+   */
+  private async decideSyncAction(file: TFile, ledgerEntry: SyncLedgerEntry | null, incremental: boolean, remoteModifiedDate: string | null | undefined): Promise<'push' | 'pull' | 'none'> {
+    if (!incremental || !ledgerEntry) {
+      return 'push';
+    }
+
+    const localChanged = await this.hasLocalChanges(file, ledgerEntry);
+    const remoteChanged = this.hasRemoteChanges(ledgerEntry, remoteModifiedDate);
+
+    if (localChanged && remoteChanged) {
+      this.logger.info(`"${file.basename}" changed in both Obsidian and Anytype, merging against the last synced state`);
+    }
+    return localChanged ? 'push' : (remoteChanged ? 'pull' : 'none');
+  }
+
+  /**
+   * Push the given linked notes that changed in Obsidian since their last sync
+   * Notes whose content matches the ledger (e.g. just written by an import) are left alone
+   */
+  async pushChangedNotes(files: TFile[], spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'pushNoteBody' | 'linkedNotesDepth' | 'safeImport'> = {}): Promise<SyncResult> {
+    const { skipSystemProperties = true, updateStatusCallback, pushNoteBody, linkedNotesDepth, safeImport } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.wikilinkResolver.drainIssues();
+    const linkedNotes = this.createLinkedNotePush(linkedNotesDepth);
+
+    let pushed = 0;
+    let unchanged = 0;
+    let conflicts = 0;
+    let failed = 0;
+    let skipped = 0;
+    const propertiesBySpace = new Map<string, AnyTypeProperty[]>();
+
+    for (const file of files) {
+      try {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+        const objectId = frontmatter.id;
+        const noteSpaceId = typeof frontmatter.space_id === 'string' ? frontmatter.space_id.trim() : '';
+
+        if (!objectId || !Validation.isValidAnyTypeId(objectId) || !noteSpaceId) {
+          skipped++;
+          continue;
+        }
+
+        const ledgerEntry = this.syncLedger.get(objectId);
+        if (ledgerEntry && !await this.hasLocalChanges(file, ledgerEntry)) {
+          unchanged++;
+          this.logger.debug(`No local changes to push for ${file.basename}`);
+          continue;
         }
 
+        updateStatusCallback?.(`Pushing "${file.basename}"...`);
+        const availableProperties = await this.getSpaceProperties(noteSpaceId, apiKey, propertiesBySpace);
+        const { conflicted } = await this.syncNoteToAnyType(file, spaceId, apiKey, skipSystemProperties, availableProperties, { pushNoteBody, safeImport, linkedNotes });
+        if (conflicted) conflicts++;
+        pushed++;
+
       } catch (error) {
+        if (error instanceof AnyTypeApiError && error.fatal) {
+          throw error;
+        }
         failed++;
-        this.logger.error(`Failed to sync ${file.basename}: ${error.message}`);
+        this.logger.error(`Failed to push ${file.basename}: ${error.message}`);
       }
     }
 
-    this.logger.timeEnd('Sync All Notes');
-    this.logger.info(`Sync all notes complete: ${synced} synced, ${failed} failed, ${skipped} skipped`);
+    this.syncLedger.persist();
+    this.logger.info(`Pushed changed notes: ${pushed} pushed, ${unchanged} unchanged, ${conflicts} conflicts, ${failed} failed, ${skipped} skipped`);
 
-    return { created: 0, updated: synced, failed, skipped };
+    return { created: 0, updated: pushed, failed: failed + linkedNotes.failed.length, skipped, unchanged, conflicts, linkIssues: this.wikilinkResolver.drainIssues(), linkedNotesCreated: linkedNotes.created, linkedNotesFailed: linkedNotes.failed };
   }
 
-  // Enhanced property validation and processing methods
+  /**
+   * Unlinked notes in a folder or carrying a tag, the candidates for a bulk push
+   */
+  getUnlinkedNotes(selection: PushSelection): TFile[] {
+    const wantedTag = selection.kind === 'tag' ? this.normalizeTag(selection.tag) : '';
+
+    return this.app.vault.getMarkdownFiles()
+      .filter(file => !file.path.endsWith('.conflict.md'))
+      .filter(file => {
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (cache?.frontmatter?.id) {
+          return false;
+        }
+        if (selection.kind === 'folder') {
+          return PathUtils.isInFolder(file.path, selection.path);
+        }
+        const tags = cache ? getAllTags(cache) || [] : [];
+        return tags.some(tag => {
+          const normalized = this.normalizeTag(tag);
+          return normalized === wantedTag || normalized.startsWith(`${wantedTag}/`);
+        });
+      })
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
 
-  private parseFrontmatter(frontmatterText: string): Record<string, any> {
-    const frontmatter: Record<string, any> = {};
-    const lines = frontmatterText.split('\n');
-    
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex > 0) {
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        
-        if (key && value) {
-          // Parse different value types
-          if (value === 'true' || value === 'false') {
-            frontmatter[key] = value === 'true';
-          } else if (/^\d+$/.test(value)) {
-            frontmatter[key] = parseInt(value, 10);
-          } else if (/^\d+\.\d+$/.test(value)) {
-            frontmatter[key] = parseFloat(value);
-          } else if (value.startsWith('"') && value.endsWith('"')) {
-            frontmatter[key] = value.slice(1, -1);
-          } else if (value.startsWith("'") && value.endsWith("'")) {
-            frontmatter[key] = value.slice(1, -1);
+  /**
+   * Create Anytype objects for unlinked notes, one after another
+   * The object type comes from the note's `type_key`, else the closest mapped folder, else `page`
+   */
+  async pushUnlinkedNotes(files: TFile[], spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'folderTypeMapping' | 'linkedNotesDepth'> = {}): Promise<SyncResult> {
+    const { skipSystemProperties = true, updateStatusCallback, folderTypeMapping = {}, linkedNotesDepth } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.wikilinkResolver.drainIssues();
+    const linkedNotes = this.createLinkedNotePush(linkedNotesDepth, folderTypeMapping);
+
+    let created = 0;
+    let skipped = 0;
+    const failures: { path: string; error: string }[] = [];
+    const byType: Record<string, { created: number; updated: number; failed: number }> = {};
+
+    updateStatusCallback?.('Fetching available properties from Anytype...');
+    const availableProperties = await this.getSpaceProperties(spaceId, apiKey, new Map());
+
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      // Pushed already as a linked note of an earlier one: skipped here, listed with the linked notes
+      if (linkedNotes.created.includes(file.path)) {
+        skipped++;
+        continue;
+      }
+      // Failed already as a linked note, counted with the linked note failures
+      if (linkedNotes.failed.some(failure => failure.path === file.path)) {
+        continue;
+      }
+
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+      const typeKey = frontmatter.type_key || this.getMappedType(file.path, folderTypeMapping) || 'page';
+      const typeStats = byType[typeKey] || (byType[typeKey] = { created: 0, updated: 0, failed: 0 });
+
+      // Linked in the meantime, e.g. by a push of another selection
+      if (frontmatter.id) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        updateStatusCallback?.(`Pushing ${index + 1}/${files.length}: "${file.basename}"...`);
+        await this.createObjectFromNote(file, spaceId, apiKey, skipSystemProperties, undefined, { typeKey, availableProperties, linkedNotes });
+        created++;
+        typeStats.created++;
+      } catch (error) {
+        if (error instanceof AnyTypeApiError && error.fatal) {
+          throw error;
+        }
+        typeStats.failed++;
+        failures.push({ path: file.path, error: error.message });
+        this.logger.error(`Failed to push ${file.path}: ${error.message}`);
+      }
+    }
+
+    this.syncLedger.persist();
+    const failed = failures.length + linkedNotes.failed.length;
+    this.logger.info(`Pushed unlinked notes: ${created} created, ${failed} failed, ${skipped} skipped`);
+
+    return { created, updated: 0, failed, skipped, byType, failures, linkIssues: this.wikilinkResolver.drainIssues(), linkedNotesCreated: linkedNotes.created, linkedNotesFailed: linkedNotes.failed };
+  }
+
+  /**
+   * Object type mapped to the deepest folder containing the path
+   */
+  private getMappedType(path: string, folderTypeMapping: Record<string, string>): string | null {
+    let bestFolder: string | null = null;
+    for (const folder of Object.keys(folderTypeMapping)) {
+      if (folderTypeMapping[folder] && PathUtils.isInFolder(path, folder) && (bestFolder === null || folder.length > bestFolder.length)) {
+        bestFolder = folder;
+      }
+    }
+    return bestFolder !== null ? folderTypeMapping[bestFolder] : null;
+  }
+
+  private normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+  }
+
+  /**
+   * Pull objects modified in Anytype since the last pull of this space
+   * Linked objects update their notes (merging against the ledger); unlinked objects of the selected types are created
+   */
+  async pullRemoteChanges(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'objectTypes' | 'safeImport' | 'importFolder'> = {}): Promise<SyncResult> {
+    const { skipSystemProperties = true, updateStatusCallback, objectTypes = ['page'], safeImport = true, importFolder = '' } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+
+    const pollStartedAt = Date.now();
+    const since = this.syncLedger.getLastPullDate(spaceId) || this.getNewestRemoteModifiedDate(spaceId);
+
+    // Nothing to compare against yet: start tracking from now, Import All covers what already exists
+    if (!since) {
+      this.logger.info(`No previous pull for space ${spaceId}, pulling changes made from now on`);
+      this.syncLedger.setLastPullDate(spaceId, new Date(pollStartedAt).toISOString());
+      this.syncLedger.persist();
+      return { created: 0, updated: 0, failed: 0, skipped: 0, unchanged: 0, conflicts: 0 };
+    }
+
+    let created = 0;
+    let updated = 0;
+    let unchanged = 0;
+    let skipped = 0;
+    let conflicts = 0;
+    let failed = 0;
+
+    try {
+      updateStatusCallback?.('Checking Anytype for remote changes...');
+      const summaries = await this.apiService.listObjectsModifiedSince(spaceId, apiKey, since);
+      this.logger.info(`Found ${summaries.length} objects modified in Anytype since ${since}`);
+
+      const availableProperties = summaries.length > 0 ? await this.getSpaceProperties(spaceId, apiKey, new Map()) : [];
+
+      for (let index = 0; index < summaries.length; index++) {
+        const summary = summaries[index];
+        try {
+          const existingFile = this.findExistingFileByAnyTypeId(summary.id);
+          const ledgerEntry = existingFile ? this.syncLedger.get(summary.id) : null;
+
+          if (!existingFile && !objectTypes.includes(summary.type_key)) {
+            skipped++;
+            continue;
+          }
+
+          // The overlap window re-lists objects that were already pulled
+          if (ledgerEntry && !this.hasRemoteChanges(ledgerEntry, summary.last_modified_date)) {
+            unchanged++;
+            continue;
+          }
+
+          updateStatusCallback?.(`Pulling ${index + 1}/${summaries.length}: "${summary.name}"...`);
+          const { conflicted, unchanged: noteUnchanged } = await this.pullObjectToNote(summary.id, spaceId, apiKey, availableProperties, { skipSystemProperties, safeImport, importFolder });
+          if (conflicted) conflicts++;
+          if (noteUnchanged) {
+            unchanged++;
+          } else if (existingFile) {
+            updated++;
           } else {
-            frontmatter[key] = value;
+            created++;
+          }
+
+        } catch (error) {
+          if (error instanceof AnyTypeApiError && error.fatal) {
+            throw error;
           }
+          failed++;
+          this.logger.error(`Failed to pull ${summary.name} (${summary.id}): ${error.message}`);
         }
       }
+
+      // Failed objects keep the marker where it was so they are retried on the next pull
+      if (failed === 0) {
+        this.syncLedger.setLastPullDate(spaceId, new Date(pollStartedAt - PULL_OVERLAP_MS).toISOString());
+      }
+    } finally {
+      this.syncLedger.persist();
     }
-    
-    return frontmatter;
+
+    this.logger.info(`Pull from Anytype complete: ${created} created, ${updated} updated, ${unchanged} unchanged, ${conflicts} conflicts, ${failed} failed, ${skipped} skipped`);
+    return { created, updated, failed, skipped, unchanged, conflicts };
+  }
+
+  /**
+   * Newest remote modification recorded for a space, a starting point before the first pull
+   */
+  private getNewestRemoteModifiedDate(spaceId: string): string | null {
+    let newest: string | null = null;
+    for (const entry of this.syncLedger.getAll()) {
+      if (entry.spaceId === spaceId && entry.remoteModifiedDate &&
+          (!newest || Date.parse(entry.remoteModifiedDate) > Date.parse(newest))) {
+        newest = entry.remoteModifiedDate;
+      }
+    }
+    return newest;
+  }
+
+  /**
+   * Fetch remote last_modified_date for linked objects that may have changed since their last sync
+   * One search per space, stopping at the oldest recorded sync
+   */
+  private async collectRemoteModifiedDates(files: TFile[], apiKey: string, updateStatusCallback?: (status: string) => void, signal?: AbortSignal): Promise<Map<string, string | null>> {
+    const remoteModifiedDates = new Map<string, string | null>();
+    const oldestSyncBySpace = new Map<string, string | null>();
+
+    for (const file of files) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+      const entry = this.syncLedger.get(frontmatter.id);
+      if (!entry) continue;
+
+      const noteSpaceId = String(frontmatter.space_id).trim();
+      const current = oldestSyncBySpace.get(noteSpaceId);
+      if (!entry.remoteModifiedDate) {
+        // Entries without a remote date only force a full listing when no dated entry exists
+        if (current === undefined) oldestSyncBySpace.set(noteSpaceId, null);
+      } else if (!current || Date.parse(entry.remoteModifiedDate) < Date.parse(current)) {
+        oldestSyncBySpace.set(noteSpaceId, entry.remoteModifiedDate);
+      }
+    }
+
+    for (const [noteSpaceId, since] of oldestSyncBySpace.entries()) {
+      try {
+        updateStatusCallback?.('Checking Anytype for remote changes...');
+        const summaries = await this.apiService.listObjectsModifiedSince(noteSpaceId, apiKey, since, undefined, signal);
+        for (const summary of summaries) {
+          remoteModifiedDates.set(summary.id, summary.last_modified_date);
+        }
+      } catch (error) {
+        if (error instanceof OperationCancelledError) {
+          throw error;
+        }
+        // Without remote dates nothing is pulled; local changes are still pushed
+        this.logger.warn(`Could not check remote changes for space ${noteSpaceId}: ${error.message}`);
+      }
+    }
+
+    this.logger.info(`Found ${remoteModifiedDates.size} remotely modified objects since last sync`);
+    return remoteModifiedDates;
+  }
+
+  private async getKnownAttachments(spaceId?: string): Promise<Map<string, string>> {
+    return this.attachmentService ? this.attachmentService.getKnownAttachments(spaceId) : new Map<string, string>();
   }
 
+  /**
+   * Known attachments of the space, plus the vault files `files` properties of the note link to, uploaded now when `upload` is set
+   */
+  private async getPushAttachments(
+    frontmatter: Record<string, any>,
+    availableProperties: AnyTypeProperty[],
+    sourcePath: string,
+    spaceId: string,
+    upload: boolean
+  ): Promise<Map<string, string>> {
+    const attachmentPaths = await this.getKnownAttachments(spaceId);
+    if (!this.attachmentService || !upload) {
+      return attachmentPaths;
+    }
+
+    for (const property of availableProperties) {
+      const value = frontmatter[property.key];
+      if (property.format !== 'files' || value === undefined || value === null) {
+        continue;
+      }
+      for (const item of Array.isArray(value) ? value : [value]) {
+        const linkTarget = typeof item === 'string' ? item.trim().match(/^\[\[([^\]|]+)(?:\|[^\]]+)?\]\]$/)?.[1] : undefined;
+        const target = linkTarget ? this.app.metadataCache.getFirstLinkpathDest(linkTarget.trim(), sourcePath) : null;
+        if (target && target.extension !== 'md') {
+          const fileId = await this.attachmentService.getOrUploadFileId(target, spaceId);
+          if (fileId) {
+            attachmentPaths.set(fileId, target.path);
+          }
+        }
+      }
+    }
+    return attachmentPaths;
+  }
+
+  private async exportAttachments(markdown: string, sourcePath: string, spaceId: string, upload: boolean): Promise<string> {
+    return this.attachmentService ? this.attachmentService.exportAttachments(markdown, sourcePath, spaceId, upload) : markdown;
+  }
+
+  private async getSpaceProperties(spaceId: string, apiKey: string, cache: Map<string, AnyTypeProperty[]>): Promise<AnyTypeProperty[]> {
+    let properties = cache.get(spaceId);
+    if (!properties) {
+      properties = await this.apiService.listProperties(spaceId, apiKey);
+      await this.loadTagsForSelectProperties(spaceId, apiKey, properties);
+      cache.set(spaceId, properties);
+    }
+    return properties;
+  }
+
+  /**
+   * Pull the current Anytype version of an object into its linked note
+   */
+  private async pullObjectToNote(objectId: string, spaceId: string, apiKey: string, availableProperties: AnyTypeProperty[], options: NoteCreationOptions): Promise<{ file: TFile; conflicted: boolean; unchanged: boolean }> {
+    const anyTypeObject = await this.apiService.getObjectWithWikilinks(spaceId, apiKey, objectId);
+    const enhancedObject = this.enhanceObjectWithTagResolution(anyTypeObject, availableProperties);
+    this.logger.info(`Pulling remote changes for "${enhancedObject.name}" (${objectId})`);
+    return this.createOrUpdateObsidianNote(enhancedObject, options);
+  }
+
+  // Enhanced property validation and processing methods
+
   private extractPropertiesFromFrontmatter(frontmatter: Record<string, any>, availableProperties: any[], options: PropertyProcessingOptions): PropertyValue[] {
     return this.propertyProcessor.extractFromFrontmatter(frontmatter, availableProperties, options);
   }
@@ -1141,13 +2325,16 @@ export class SyncService {
       updateStatusCallback?.(`Importing "${enhancedObject.name}" to Obsidian...`);
       
       // Import the object using existing logic (note: propertyPrecedence currently handled in existing logic)
-      await this.createOrUpdateObsidianNote(enhancedObject, { skipSystemProperties, safeImport, importFolder });
+      const { conflicted } = await this.createOrUpdateObsidianNote(enhancedObject, { skipSystemProperties, safeImport, importFolder });
+      this.syncLedger.persist();
       
       this.logger.info(`Successfully imported current note "${activeNote.basename}" from Anytype object ${objectId}`);
       
       return {
         success: true,
-        message: `Successfully imported "${enhancedObject.name}" from Anytype`
+        message: conflicted
+          ? `Imported "${enhancedObject.name}" from Anytype with conflicts - Obsidian changes were kept, see "${activeNote.basename}.conflict.md"`
+          : `Successfully imported "${enhancedObject.name}" from Anytype`
       };
       
     } catch (error) {
@@ -1159,8 +2346,8 @@ export class SyncService {
     }
   }
 
-  async reImportExistingNotes(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'safeImport' | 'importFolder'> = {}): Promise<{ successful: number; failed: number; skipped: number }> {
-    const { skipSystemProperties = true, updateStatusCallback, safeImport = true, importFolder = '' } = options;
+  async reImportExistingNotes(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'safeImport' | 'importFolder' | 'remoteDeletionPolicy' | 'archiveFolder' | 'signal' | 'onProgress'> = {}): Promise<{ successful: number; failed: number; skipped: number; conflicts: number; reconciled: ReconciledNote[] }> {
+    const { skipSystemProperties = true, updateStatusCallback, safeImport = true, importFolder = '', remoteDeletionPolicy = 'leave', archiveFolder = '', signal, onProgress } = options;
     this.logger.info('Starting re-import of existing notes from Anytype');
     
     try {
@@ -1173,7 +2360,7 @@ export class SyncService {
       if (notesWithMetadata.length === 0) {
         this.logger.info('No notes with Anytype metadata found');
         updateStatusCallback?.('No notes with Anytype metadata found');
-        return { successful: 0, failed: 0, skipped: 0 };
+        return { successful: 0, failed: 0, skipped: 0, conflicts: 0, reconciled: [] };
       }
       
       this.logger.info(`Found ${notesWithMetadata.length} notes with Anytype metadata to re-import`);
@@ -1181,68 +2368,604 @@ export class SyncService {
       
       // Load properties and tags once for the entire batch operation
       updateStatusCallback?.('Loading properties and tags for enhanced processing...');
+      onProgress?.({ phase: 'Loading properties and tags', completed: 0, total: notesWithMetadata.length, counts: {} });
       const availableProperties = await this.apiService.listProperties(spaceId, apiKey);
       await this.loadTagsForSelectProperties(spaceId, apiKey, availableProperties);
       
       let successful = 0;
       let failed = 0;
       let skipped = 0;
+      let conflicts = 0;
+      const reconciled: ReconciledNote[] = [];
       
       // Process each note
-      for (let i = 0; i < notesWithMetadata.length; i++) {
-        const file = notesWithMetadata[i];
-        const progress = `(${i + 1}/${notesWithMetadata.length})`;
+      try {
+        for (let i = 0; i < notesWithMetadata.length; i++) {
+          OperationCancelledError.throwIfAborted(signal);
+          const file = notesWithMetadata[i];
+          const progress = `(${i + 1}/${notesWithMetadata.length})`;
+          onProgress?.({
+            phase: 'Re-importing notes',
+            completed: i,
+            total: notesWithMetadata.length,
+            currentItem: file.basename,
+            counts: { successful, failed, skipped, conflicts, 'deleted or archived': reconciled.length }
+          });
         
-        try {
-          updateStatusCallback?.(`${progress} Re-importing "${file.basename}"...`);
-          this.logger.debug(`${progress} Processing note: ${file.basename}`);
-          
-          const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-          const objectId = frontmatter.id;
-          const noteSpaceId = frontmatter.space_id;
+          try {
+            updateStatusCallback?.(`${progress} Re-importing "${file.basename}"...`);
+            this.logger.debug(`${progress} Processing note: ${file.basename}`);
           
-          // Validate that the space_id matches the current workspace
-          if (noteSpaceId !== spaceId) {
-            this.logger.warn(`${progress} Skipping ${file.basename}: belongs to different space (${noteSpaceId})`);
-            skipped++;
-            continue;
-          }
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+            const objectId = frontmatter.id;
+            const noteSpaceId = frontmatter.space_id;
           
-          // Fetch the object from Anytype
-          const anyTypeObject = await this.apiService.getObjectWithWikilinks(spaceId, apiKey, objectId);
+            // Validate that the space_id matches the current workspace
+            if (noteSpaceId !== spaceId) {
+              this.logger.warn(`${progress} Skipping ${file.basename}: belongs to different space (${noteSpaceId})`);
+              skipped++;
+              continue;
+            }
           
-          if (!anyTypeObject) {
-            this.logger.error(`${progress} Object ${objectId} not found in Anytype for ${file.basename}`);
-            failed++;
-            continue;
-          }
+            // Fetch the object from Anytype; a failed fetch may mean the object was deleted there
+            let anyTypeObject: AnyTypeObject;
+            try {
+              anyTypeObject = await this.apiService.getObjectWithWikilinks(spaceId, apiKey, objectId);
+            } catch (error) {
+              if (await this.apiService.getObjectStatus(spaceId, apiKey, objectId) !== 'deleted') {
+                throw error;
+              }
+              reconciled.push(await this.applyRemoteDeletionPolicy(file, 'deleted', remoteDeletionPolicy, archiveFolder));
+              continue;
+            }
 
-          // Enhance object with tag name resolution
-          const enhancedObject = this.enhanceObjectWithTagResolution(anyTypeObject, availableProperties);
+            if (anyTypeObject.archived) {
+              reconciled.push(await this.applyRemoteDeletionPolicy(file, 'archived', remoteDeletionPolicy, archiveFolder));
+              continue;
+            }
+
+            // Enhance object with tag name resolution
+            const enhancedObject = this.enhanceObjectWithTagResolution(anyTypeObject, availableProperties);
           
-          // Import the object using existing logic
-          await this.createOrUpdateObsidianNote(enhancedObject, { skipSystemProperties, safeImport, importFolder });
+            // Import the object using existing logic
+            const { conflicted } = await this.createOrUpdateObsidianNote(enhancedObject, { skipSystemProperties, safeImport, importFolder });
+            if (conflicted) conflicts++;
           
-          this.logger.info(`${progress} Successfully re-imported ${file.basename} from Anytype object ${objectId}`);
-          successful++;
+            this.logger.info(`${progress} Successfully re-imported ${file.basename} from Anytype object ${objectId}`);
+            successful++;
           
-        } catch (error) {
-          this.logger.error(`${progress} Failed to re-import ${file.basename}: ${error.message}`);
-          failed++;
+          } catch (error) {
+            if (error instanceof AnyTypeApiError && error.fatal) {
+              throw error;
+            }
+            this.logger.error(`${progress} Failed to re-import ${file.basename}: ${error.message}`);
+            failed++;
+          }
         }
+      } finally {
+        // Notes re-imported before a cancellation keep their ledger entries
+        this.syncLedger.persist();
       }
-      
-      this.logger.info(`Re-import completed: ${successful} successful, ${failed} failed, ${skipped} skipped`);
+
+      this.logger.info(`Re-import completed: ${successful} successful, ${failed} failed, ${skipped} skipped, ${conflicts} conflicts, ${reconciled.length} deleted or archived in Anytype`);
       updateStatusCallback?.('Re-import completed');
       
-      return { successful, failed, skipped };
+      return { successful, failed, skipped, conflicts, reconciled };
       
     } catch (error) {
-      this.logger.error(`Re-import process failed: ${error.message}`);
+      if (error instanceof OperationCancelledError) {
+        this.logger.info('Re-import cancelled');
+      } else {
+        this.logger.error(`Re-import process failed: ${error.message}`);
+      }
       throw error;
     }
   }
 
+  /**
+   * Check every linked note against Anytype and apply the deletion policy to notes whose object was deleted or archived
+   */
+  async reconcileRemoteDeletions(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'updateStatusCallback' | 'remoteDeletionPolicy' | 'archiveFolder'> = {}): Promise<ReconcileResult> {
+    const { updateStatusCallback, remoteDeletionPolicy = 'leave', archiveFolder = '' } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.logger.info(`Reconciling Anytype deletions (policy: ${remoteDeletionPolicy})`);
+
+    const linkedNotes = this.getNotesWithAnyTypeMetadata();
+    const reconciled: ReconciledNote[] = [];
+    let failed = 0;
+
+    try {
+      for (let index = 0; index < linkedNotes.length; index++) {
+        const file = linkedNotes[index];
+        try {
+          updateStatusCallback?.(`Checking ${index + 1}/${linkedNotes.length}: "${file.basename}"...`);
+          const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+          const status = await this.apiService.getObjectStatus(String(frontmatter.space_id).trim(), apiKey, frontmatter.id);
+          if (status !== 'active') {
+            reconciled.push(await this.applyRemoteDeletionPolicy(file, status, remoteDeletionPolicy, archiveFolder));
+          }
+        } catch (error) {
+          if (error instanceof AnyTypeApiError && error.fatal) {
+            throw error;
+          }
+          failed++;
+          this.logger.error(`Failed to check ${file.basename} against Anytype: ${error.message}`);
+        }
+      }
+    } finally {
+      this.syncLedger.persist();
+    }
+
+    this.logger.info(`Reconciliation complete: ${linkedNotes.length} checked, ${reconciled.length} deleted or archived in Anytype, ${failed} failed`);
+    return { checked: linkedNotes.length, reconciled, failed };
+  }
+
+  /**
+   * Handle a linked note whose Anytype object no longer exists (or was archived)
+   * Every policy except "leave" unlinks the note from the sync ledger so it is not synced again
+   */
+  private async applyRemoteDeletionPolicy(file: TFile, status: 'archived' | 'deleted', policy: RemoteDeletionPolicy, archiveFolder: string): Promise<ReconciledNote> {
+    const objectId = this.app.metadataCache.getFileCache(file)?.frontmatter?.id;
+    const result: ReconciledNote = { path: file.path, name: file.basename, status, action: policy };
+    this.logger.warn(`"${file.basename}" was ${status} in Anytype, applying policy "${policy}"`);
+
+    if (policy === 'leave') {
+      return result;
+    }
+
+    await this.snapshotService?.capture(file);
+    if (policy === 'trash') {
+      await this.app.fileManager.trashFile(file);
+    } else {
+      await this.app.vault.process(file, content => {
+        const sections = FrontmatterProcessor.split(content);
+        return FrontmatterProcessor.wrap(FrontmatterProcessor.update(sections.frontmatter || '', { [ANYTYPE_STATUS_KEY]: status })) + sections.body;
+      });
+
+      if (policy === 'archive') {
+        result.newPath = await this.moveToArchiveFolder(file, archiveFolder);
+      }
+    }
+
+    if (typeof objectId === 'string') {
+      this.syncLedger.remove(objectId);
+    }
+    return result;
+  }
+
+  private async moveToArchiveFolder(file: TFile, archiveFolder: string): Promise<string> {
+    const folder = this.getArchiveFolder(archiveFolder);
+    if (!this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    const targetPath = this.getArchiveTargetPath(file, archiveFolder);
+    const oldPath = file.path;
+    await this.app.vault.rename(file, targetPath);
+    this.snapshotService?.recordRename(oldPath, file.path);
+    this.logger.info(`Moved "${file.basename}" to ${targetPath}`);
+    return file.path;
+  }
+
+  private getArchiveFolder(archiveFolder: string): string {
+    return normalizePath(archiveFolder.trim() || DEFAULT_SETTINGS.remoteDeletionArchiveFolder);
+  }
+
+  /**
+   * Free path for a note in the archive folder, numbered when the name is taken
+   */
+  private getArchiveTargetPath(file: TFile, archiveFolder: string): string {
+    const folder = this.getArchiveFolder(archiveFolder);
+    let targetPath = normalizePath(`${folder}/${file.name}`);
+    for (let counter = 1; this.app.vault.getAbstractFileByPath(targetPath); counter++) {
+      targetPath = normalizePath(`${folder}/${file.basename} ${counter}.${file.extension}`);
+    }
+    return targetPath;
+  }
+
+  /**
+   * Dry run of syncFromAnyType: fetch every object of the selected types and report what importing it would change
+   */
+  async planSyncFromAnyType(spaceId: string, apiKey: string, options: SyncOptions = {}): Promise<SyncPlan> {
+    const {
+      skipSystemProperties = true,
+      updateStatusCallback,
+      objectTypes = ['page'],
+      resolveObjectLinks = true,
+      safeImport = true,
+      importFolder = '',
+      signal,
+      onProgress
+    } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.logger.info('Planning import from Anytype (dry run)');
+
+    const plan = this.createSyncPlan('import');
+    const objects: AnyTypeObject[] = [];
+    await this.apiService.getAllObjects(spaceId, apiKey, objectTypes, async (object: AnyTypeObject) => {
+      objects.push(object);
+      onProgress?.({ phase: 'Fetching objects from Anytype', completed: objects.length, currentItem: object.name, counts: {} });
+      if (objects.length % 25 === 0) {
+        updateStatusCallback?.(`Planning import: fetched ${objects.length} objects...`);
+      }
+    }, resolveObjectLinks, signal, () => plan.failed++);
+
+    // Same two passes as the import itself, so planned paths and links match what applying writes
+    const linkTargets = this.planImportPaths(objects, safeImport, importFolder);
+    for (let index = 0; index < objects.length; index++) {
+      OperationCancelledError.throwIfAborted(signal);
+      onProgress?.({ phase: 'Checking objects', completed: index, total: objects.length, currentItem: objects[index].name, counts: this.getPlanCounts(plan) });
+      await this.addPullToPlan(plan, objects[index], { skipSystemProperties, safeImport, importFolder, linkTargets });
+      if ((index + 1) % 10 === 0) {
+        updateStatusCallback?.(`Planning import: checked ${index + 1} objects...`);
+      }
+    }
+
+    this.logger.info(`Import plan: ${plan.items.length} changes, ${plan.unchanged} unchanged, ${plan.failed} failed`);
+    return plan;
+  }
+
+  /**
+   * Dry run of syncAllNotes: decide push/pull per linked note like Sync All does and report the changes
+   */
+  async planSyncAllNotes(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'safeImport' | 'importFolder' | 'incremental' | 'pushNoteBody' | 'signal' | 'onProgress'> = {}): Promise<SyncPlan> {
+    const { skipSystemProperties = true, updateStatusCallback, safeImport = true, importFolder = '', incremental = true, pushNoteBody, signal, onProgress } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.logger.info('Planning Sync All (dry run)');
+
+    const plan = this.createSyncPlan('syncAll');
+    const eligibleFiles = this.getNotesWithAnyTypeMetadata();
+    plan.skipped = this.app.vault.getMarkdownFiles().length - eligibleFiles.length;
+
+    const propertiesBySpace = new Map<string, AnyTypeProperty[]>();
+    onProgress?.({ phase: 'Checking Anytype for remote changes', completed: 0, counts: {} });
+    const remoteModifiedDates = incremental
+      ? await this.collectRemoteModifiedDates(eligibleFiles, apiKey, updateStatusCallback, signal)
+      : new Map<string, string | null>();
+
+    for (let index = 0; index < eligibleFiles.length; index++) {
+      const file = eligibleFiles[index];
+      OperationCancelledError.throwIfAborted(signal);
+      onProgress?.({ phase: 'Checking notes', completed: index, total: eligibleFiles.length, currentItem: file.basename, counts: this.getPlanCounts(plan) });
+      try {
+        updateStatusCallback?.(`Planning sync ${index + 1}/${eligibleFiles.length}: "${file.basename}"...`);
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+        const objectId: string = frontmatter.id;
+        const noteSpaceId: string = frontmatter.space_id.trim();
+
+        const action = await this.decideSyncAction(file, this.syncLedger.get(objectId), incremental, remoteModifiedDates.get(objectId));
+        if (action === 'none') {
+          plan.unchanged++;
+          continue;
+        }
+
+        const availableProperties = await this.getSpaceProperties(noteSpaceId, apiKey, propertiesBySpace);
+        const item = action === 'push'
+          ? await this.planNotePush(file, spaceId, apiKey, skipSystemProperties, availableProperties, { pushNoteBody, safeImport })
+          : await this.planNoteUpdate(
+            this.enhanceObjectWithTagResolution(await this.apiService.getObjectWithWikilinks(noteSpaceId, apiKey, objectId), availableProperties),
+            { skipSystemProperties, safeImport, importFolder });
+
+        if (item) {
+          plan.items.push(item);
+        } else {
+          plan.unchanged++;
+        }
+
+      } catch (error) {
+        if (error instanceof AnyTypeApiError && error.fatal) {
+          throw error;
+        }
+        plan.failed++;
+        this.logger.error(`Failed to plan sync of ${file.basename}: ${error.message}`);
+      }
+    }
+
+    this.logger.info(`Sync All plan: ${plan.items.length} changes, ${plan.unchanged} unchanged, ${plan.failed} failed, ${plan.skipped} skipped`);
+    return plan;
+  }
+
+  /**
+   * Dry run of reImportExistingNotes: fetch the object of every linked note in the space and report the changes
+   */
+  async planReImportExistingNotes(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'safeImport' | 'importFolder' | 'remoteDeletionPolicy' | 'archiveFolder' | 'signal' | 'onProgress'> = {}): Promise<SyncPlan> {
+    const { skipSystemProperties = true, updateStatusCallback, safeImport = true, importFolder = '', remoteDeletionPolicy = 'leave', archiveFolder = '', signal, onProgress } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.logger.info('Planning re-import of existing notes (dry run)');
+
+    const plan = this.createSyncPlan('reImport');
+    const notesWithMetadata = this.getNotesWithAnyTypeMetadata();
+    if (notesWithMetadata.length === 0) {
+      return plan;
+    }
+
+    onProgress?.({ phase: 'Loading properties and tags', completed: 0, total: notesWithMetadata.length, counts: {} });
+    const availableProperties = await this.getSpaceProperties(spaceId, apiKey, new Map());
+
+    for (let index = 0; index < notesWithMetadata.length; index++) {
+      const file = notesWithMetadata[index];
+      OperationCancelledError.throwIfAborted(signal);
+      onProgress?.({ phase: 'Checking notes', completed: index, total: notesWithMetadata.length, currentItem: file.basename, counts: this.getPlanCounts(plan) });
+      try {
+        updateStatusCallback?.(`Planning re-import ${index + 1}/${notesWithMetadata.length}: "${file.basename}"...`);
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+        if (frontmatter.space_id !== spaceId) {
+          plan.skipped++;
+          continue;
+        }
+
+        // Same checks as the re-import itself: objects gone in Anytype get the remote deletion policy
+        let anyTypeObject: AnyTypeObject;
+        try {
+          anyTypeObject = await this.apiService.getObjectWithWikilinks(spaceId, apiKey, frontmatter.id);
+        } catch (error) {
+          if (await this.apiService.getObjectStatus(spaceId, apiKey, frontmatter.id) !== 'deleted') {
+            throw error;
+          }
+          plan.items.push(this.planRemoteDeletion(file, frontmatter, 'deleted', remoteDeletionPolicy, archiveFolder));
+          continue;
+        }
+
+        if (anyTypeObject.archived) {
+          plan.items.push(this.planRemoteDeletion(file, frontmatter, 'archived', remoteDeletionPolicy, archiveFolder));
+          continue;
+        }
+        await this.addPullToPlan(plan, this.enhanceObjectWithTagResolution(anyTypeObject, availableProperties), { skipSystemProperties, safeImport, importFolder });
+
+      } catch (error) {
+        if (error instanceof AnyTypeApiError && error.fatal) {
+          throw error;
+        }
+        plan.failed++;
+        this.logger.error(`Failed to plan re-import of ${file.basename}: ${error.message}`);
+      }
+    }
+
+    this.logger.info(`Re-import plan: ${plan.items.length} changes, ${plan.unchanged} unchanged, ${plan.failed} failed, ${plan.skipped} skipped`);
+    return plan;
+  }
+
+  /**
+   * Carry out the selected items of a dry-run plan
+   * Pulls write the object fetched while planning; pushes re-read the note, so edits made since planning are included
+   */
+  async applySyncPlan(items: SyncPlanItem[], spaceId: string, apiKey: string, options: Pick<SyncOptions, 'skipSystemProperties' | 'updateStatusCallback' | 'safeImport' | 'importFolder' | 'pushNoteBody' | 'signal' | 'onProgress'> = {}): Promise<SyncResult> {
+    const { skipSystemProperties = true, updateStatusCallback, safeImport = true, importFolder = '', pushNoteBody, signal, onProgress } = options;
+    this.validateAuthInputs(spaceId, apiKey);
+    this.wikilinkResolver.drainIssues();
+
+    let created = 0;
+    let updated = 0;
+    let pulled = 0;
+    let conflicts = 0;
+    let failed = 0;
+    const reconciled: ReconciledNote[] = [];
+    const propertiesBySpace = new Map<string, AnyTypeProperty[]>();
+
+    try {
+      for (let index = 0; index < items.length; index++) {
+        const item = items[index];
+        OperationCancelledError.throwIfAborted(signal);
+        onProgress?.({ phase: 'Applying changes', completed: index, total: items.length, currentItem: item.name, counts: { created, pulled, pushed: updated, conflicts, failed } });
+        try {
+          updateStatusCallback?.(`Applying ${index + 1}/${items.length}: "${item.name}"...`);
+
+          if (item.remoteDeletion) {
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            if (!(file instanceof TFile)) {
+              throw new Error(`Note "${item.path}" no longer exists`);
+            }
+            const { status, policy, archiveFolder } = item.remoteDeletion;
+            reconciled.push(await this.applyRemoteDeletionPolicy(file, status, policy, archiveFolder));
+          } else if (item.direction === 'pull') {
+            if (!item.object) {
+              throw new Error(`No Anytype object was fetched for "${item.name}"`);
+            }
+            const { conflicted } = await this.createOrUpdateObsidianNote(item.object, { skipSystemProperties, safeImport, importFolder, linkTargets: item.linkTargets });
+            if (conflicted) conflicts++;
+            if (item.action === 'create') {
+              created++;
+            } else {
+              pulled++;
+            }
+          } else {
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            if (!(file instanceof TFile)) {
+              throw new Error(`Note "${item.path}" no longer exists`);
+            }
+            const noteSpaceId = String(this.app.metadataCache.getFileCache(file)?.frontmatter?.space_id || spaceId).trim();
+            const availableProperties = await this.getSpaceProperties(noteSpaceId, apiKey, propertiesBySpace);
+            const { conflicted } = await this.syncNoteToAnyType(file, spaceId, apiKey, skipSystemProperties, availableProperties, { pushNoteBody, safeImport });
+            if (conflicted) conflicts++;
+            updated++;
+          }
+
+        } catch (error) {
+          if (error instanceof AnyTypeApiError && error.fatal) {
+            throw error;
+          }
+          failed++;
+          this.logger.error(`Failed to apply planned change for ${item.name}: ${error.message}`);
+        }
+      }
+    } finally {
+      this.syncLedger.persist();
+    }
+
+    this.logger.info(`Applied plan: ${created} created, ${pulled} pulled, ${updated} pushed, ${conflicts} conflicts, ${failed} failed, ${reconciled.length} deleted or archived in Anytype`);
+    return { created, updated, pulled, failed, conflicts, linkIssues: this.wikilinkResolver.drainIssues(), reconciled };
+  }
+
+  private createSyncPlan(operation: SyncPlanOperation): SyncPlan {
+    return { operation, items: [], unchanged: 0, skipped: 0, failed: 0 };
+  }
+
+  /**
+   * Plan item for a note whose object was deleted or archived in Anytype: what the remote deletion policy would do to it
+   */
+  private planRemoteDeletion(file: TFile, frontmatter: Record<string, any>, status: 'archived' | 'deleted', policy: RemoteDeletionPolicy, archiveFolder: string): SyncPlanItem {
+    const marked = policy === 'mark' || policy === 'archive';
+    const newPath = policy === 'archive' ? this.getArchiveTargetPath(file, archiveFolder) : undefined;
+
+    return {
+      objectId: String(frontmatter.id),
+      name: file.basename,
+      direction: 'pull',
+      action: 'update',
+      path: file.path,
+      newPath,
+      changes: marked ? [{ key: ANYTYPE_STATUS_KEY, before: frontmatter[ANYTYPE_STATUS_KEY], after: status }] : [],
+      conflicts: [],
+      remoteDeletion: { status, policy, archiveFolder }
+    };
+  }
+
+  private getPlanCounts(plan: SyncPlan): Record<string, number> {
+    return { changes: plan.items.length, unchanged: plan.unchanged, skipped: plan.skipped, failed: plan.failed };
+  }
+
+  private async addPullToPlan(plan: SyncPlan, object: AnyTypeObject, options: NoteCreationOptions): Promise<void> {
+    try {
+      const item = await this.planNoteUpdate(object, options);
+      if (item) {
+        plan.items.push(item);
+      } else {
+        plan.unchanged++;
+      }
+    } catch (error) {
+      plan.failed++;
+      this.logger.error(`Failed to plan import of ${object.name} (${object.id}): ${error.message}`);
+    }
+  }
+
+  /**
+   * What importing an object would do to the vault, or null when the note would stay as it is
+   */
+  private async planNoteUpdate(object: AnyTypeObject, options: NoteCreationOptions): Promise<SyncPlanItem | null> {
+    const { skipSystemProperties = true, safeImport = true, importFolder = '', linkTargets } = options;
+    // Planning downloads nothing; attachments already in the vault show as they will be written
+    const attachmentPaths = await this.getKnownAttachments(object.space_id);
+    const linkedObject = this.withAttachmentPaths(linkTargets ? this.withLinkTargets(object, linkTargets) : object, attachmentPaths);
+    const { existingFile, existingContent, merge, noteObject, yamlFrontmatter } = await this.prepareNoteUpdate(linkedObject, skipSystemProperties, safeImport);
+
+    const incomingBody = this.convertRemoteBody(object, linkTargets, attachmentPaths);
+    const newFrontmatter = this.parsePlanFrontmatter(FrontmatterProcessor.split(yamlFrontmatter).frontmatter);
+    const conflicts = merge ? merge.conflicts.map(conflict => conflict.key) : [];
+    if (merge?.remoteBody !== null && merge?.remoteBody !== undefined) {
+      conflicts.push('body');
+    }
+
+    if (!existingFile || existingContent === null) {
+      const plannedPath = linkTargets?.get(object.id);
+      return {
+        objectId: object.id,
+        name: object.name,
+        direction: 'pull',
+        action: 'create',
+        path: plannedPath || this.getImportPath(this.generateUniqueFilename(object.name || 'Untitled', importFolder).filename, importFolder),
+        changes: this.diffPlanValues({}, newFrontmatter),
+        body: incomingBody ? { before: '', after: incomingBody } : undefined,
+        conflicts,
+        object,
+        linkTargets
+      };
+    }
+
+    const current = FrontmatterProcessor.split(existingContent);
+    const newBody = safeImport || merge?.keepLocalBody ? current.body : incomingBody;
+    const changes = this.diffPlanValues(this.parsePlanFrontmatter(current.frontmatter), newFrontmatter);
+
+    // Renames only happen with Safe Import off, and never onto another existing note
+    const renamePath = safeImport ? null : (linkTargets?.get(object.id) || this.getObjectNamePath(existingFile, noteObject));
+    const newPath = renamePath && renamePath !== existingFile.path && !this.app.vault.getAbstractFileByPath(renamePath) ? renamePath : undefined;
+
+    if (changes.length === 0 && newBody === current.body && !newPath && conflicts.length === 0) {
+      return null;
+    }
+
+    return {
+      objectId: object.id,
+      name: object.name,
+      direction: 'pull',
+      action: 'update',
+      path: existingFile.path,
+      newPath,
+      changes,
+      body: newBody !== current.body ? { before: current.body, after: newBody } : undefined,
+      conflicts,
+      object,
+      linkTargets
+    };
+  }
+
+  /**
+   * What pushing a note would send to Anytype, compared with the current Anytype version
+   */
+  private async planNotePush(
+    file: TFile,
+    fallbackSpaceId: string,
+    apiKey: string,
+    skipSystemProperties: boolean,
+    spaceProperties: AnyTypeProperty[],
+    bodyOptions: Pick<SyncOptions, 'pushNoteBody' | 'safeImport'>
+  ): Promise<SyncPlanItem | null> {
+    const prepared = await this.preparePush(file, fallbackSpaceId, apiKey, skipSystemProperties, spaceProperties, bodyOptions);
+    const currentObject = prepared.currentObject || this.enhanceObjectWithTagResolution(
+      await this.apiService.getObjectWithWikilinks(prepared.targetSpaceId, apiKey, prepared.objectId), prepared.availableProperties);
+    const remoteFrontmatter = this.buildAnytypeFrontmatter(currentObject, skipSystemProperties);
+
+    // Compare in frontmatter terms: PATCH payloads carry tag and object IDs where the note has names
+    const pushedValues: Record<string, any> = { name: file.basename };
+    const remoteValues: Record<string, any> = { name: currentObject.name };
+    for (const property of prepared.validatedProperties) {
+      pushedValues[property.key] = prepared.frontmatter[property.key];
+      remoteValues[property.key] = remoteFrontmatter[property.key];
+    }
+    const changes = this.diffPlanValues(remoteValues, pushedValues);
+
+    const remoteBody = TextProcessor.convertAnyTypeLinksToWikilinks(currentObject.markdown || '');
+    const bodyChanged = prepared.bodyToPush !== null && prepared.localBody !== remoteBody;
+    const conflicts = prepared.conflicts.map(conflict => conflict.key);
+    if (prepared.conflictBody !== null) {
+      conflicts.push('body');
+    }
+
+    if (changes.length === 0 && !bodyChanged && conflicts.length === 0) {
+      return null;
+    }
+
+    return {
+      objectId: prepared.objectId,
+      name: file.basename,
+      direction: 'push',
+      action: 'update',
+      path: file.path,
+      changes,
+      body: bodyChanged ? { before: remoteBody, after: prepared.localBody } : undefined,
+      conflicts
+    };
+  }
+
+  private diffPlanValues(before: Record<string, any>, after: Record<string, any>): SyncPlanChange[] {
+    const changes: SyncPlanChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => {
+      if (!ConflictResolver.valuesEqual(before[key], after[key])) {
+        changes.push({ key, before: before[key] !== undefined ? before[key] : null, after: after[key] !== undefined ? after[key] : null });
+      }
+    });
+    return changes;
+  }
+
+  private parsePlanFrontmatter(frontmatter: string | null): Record<string, any> {
+    try {
+      return FrontmatterProcessor.parse(frontmatter);
+    } catch (error) {
+      this.logger.warn(`Invalid frontmatter while planning, comparing against empty frontmatter: ${error.message}`);
+      return {};
+    }
+  }
+
   async deleteCurrentNote(spaceId: string, apiKey: string, options: Pick<SyncOptions, 'updateStatusCallback'> = {}): Promise<{ success: boolean; message: string }> {
     const { updateStatusCallback } = options;
     this.logger.info('Starting deletion of current note from Anytype');
@@ -1298,48 +3021,32 @@ export class SyncService {
       
       updateStatusCallback?.('Removing Anytype metadata from note...');
       
-      // Remove Anytype metadata from the note's frontmatter
+      // Remove Anytype metadata from the note's frontmatter, leaving everything else as written
       const content = await this.app.vault.read(activeNote);
       let updatedContent = content;
+      const sections = FrontmatterProcessor.split(content);
       
-      if (content.startsWith('---')) {
-        const frontmatterEndIndex = content.indexOf('---', 3);
-        if (frontmatterEndIndex !== -1) {
-          const frontmatterText = content.substring(3, frontmatterEndIndex).trim();
-          const markdownContent = content.substring(frontmatterEndIndex + 3);
+      if (sections.frontmatter !== null) {
+        try {
+          const remainingFrontmatter = FrontmatterProcessor.update(sections.frontmatter, {}, ['id', 'space_id', 'type_key', 'created_at', 'updated_at']);
           
-          try {
-            const parsedFrontmatter = this.parseFrontmatter(frontmatterText);
-            
-            // Remove Anytype-specific properties
-            delete parsedFrontmatter.id;
-            delete parsedFrontmatter.space_id;
-            delete parsedFrontmatter.type_key;
-            delete parsedFrontmatter.created_at;
-            delete parsedFrontmatter.updated_at;
-            
-            // Rebuild frontmatter without Anytype metadata
-            if (Object.keys(parsedFrontmatter).length > 0) {
-              let newFrontmatterText = '';
-              for (const [key, value] of Object.entries(parsedFrontmatter)) {
-                if (value !== null && value !== undefined) {
-                  newFrontmatterText += TextProcessor.formatYamlLine(key, value);
-                }
-              }
-              updatedContent = `---\n${newFrontmatterText}---${markdownContent}`;
-            } else {
-              // Remove frontmatter entirely if empty
-              updatedContent = markdownContent.trim();
-            }
-          } catch (error) {
-            this.logger.warn(`Failed to parse frontmatter for cleanup: ${error.message}`);
-            // Keep the original content if parsing fails
-          }
+          // Remove frontmatter entirely if nothing but comments is left
+          updatedContent = Object.keys(FrontmatterProcessor.parse(remainingFrontmatter)).length > 0
+            ? FrontmatterProcessor.wrap(remainingFrontmatter) + sections.body
+            : sections.body.trim();
+        } catch (error) {
+          this.logger.warn(`Failed to parse frontmatter for cleanup: ${error.message}`);
+          // Keep the original content if parsing fails
         }
       }
       
       // Update the note content
+      await this.snapshotService?.capture(activeNote);
       await this.app.vault.process(activeNote, () => updatedContent);
+
+      // The pair no longer exists, forget its sync state
+      this.syncLedger.remove(objectId);
+      this.syncLedger.persist();
       
       this.logger.info(`Successfully deleted note "${activeNote.basename}" from Anytype and cleaned up metadata`);
       
@@ -1,3 +1,5 @@
+import { DEFAULT_REQUEST_CONCURRENCY } from './constants';
+
 export interface AnyTypeSettings {
   apiKey: string;
   spaceId: string;
@@ -19,8 +21,56 @@ export interface AnyTypeSettings {
   safeImport: boolean;
   // Import folder - folder where imported objects are created
   importFolder: string;
+  // Incremental Sync All - only push/pull pairs that changed since the last sync
+  incrementalSync: boolean;
+  // Push note body - send body edits to existing Anytype objects on sync
+  pushNoteBody: boolean;
+  // Auto sync - push linked notes in the background after they are edited
+  autoSync: boolean;
+  autoSyncDelay: number;
+  autoSyncIncludeFolders: string[];
+  autoSyncExcludeFolders: string[];
+  // Periodic pull - bring Anytype edits into the vault on a schedule
+  periodicPull: boolean;
+  pullInterval: number;
+  // Preview bulk operations - show a dry-run plan before Import All, Sync All and Re-import write anything
+  previewBulkOperations: boolean;
+  // Snapshots - back up notes before an operation changes them, for "Undo last Anytype operation"
+  snapshotsEnabled: boolean;
+  snapshotRetention: number;
+  // Remote deletions - what happens to notes whose Anytype object was deleted or archived
+  remoteDeletionPolicy: RemoteDeletionPolicy;
+  remoteDeletionArchiveFolder: string;
+  // Local deletions - archive or delete the Anytype object when its linked note is deleted in Obsidian
+  propagateLocalDeletions: boolean;
+  localDeletionAction: LocalDeletionAction;
+  confirmLocalDeletions: boolean;
+  localDeletionFolders: string[];
+  // Rename tracking - renaming a linked note renames its Anytype object right away
+  syncRenames: boolean;
+  // Bulk push - object type for unlinked notes without `type_key`, by folder
+  folderTypeMapping: Record<string, string>;
+  // Linked notes - push unlinked notes a pushed note links to first, so its links become Anytype links
+  pushLinkedNotes: boolean;
+  linkedNotesDepth: number;
+  // Attachments - download files and images referenced by imported objects into the vault
+  downloadAttachments: boolean;
+  attachmentsFolder: string;
+  // Upload vault files and images a pushed note embeds, replacing the embeds with Anytype file links
+  uploadAttachments: boolean;
+  // Parallel requests - object fetches (and object name lookups) in flight at once during imports
+  requestConcurrency: number;
+  // Object name cache - keep looked-up object names between imports (in the plugin directory), for this many minutes
+  persistObjectNameCache: boolean;
+  objectNameCacheTtl: number;
 }
 
+// leave: only report; mark: set `anytype_status`; archive: mark and move to the archive folder; trash: move to trash
+export type RemoteDeletionPolicy = 'leave' | 'mark' | 'archive' | 'trash';
+
+// What a note deleted in Obsidian does to its Anytype object: archive it to the bin or delete it
+export type LocalDeletionAction = 'archive' | 'delete';
+
 export const DEFAULT_SETTINGS: AnyTypeSettings = {
   apiKey: '',
   spaceId: '',
@@ -35,7 +85,34 @@ export const DEFAULT_SETTINGS: AnyTypeSettings = {
   syncObjectTypes: ['page'],
   resolveObjectLinks: true,
   safeImport: true,
-  importFolder: ''
+  importFolder: '',
+  incrementalSync: true,
+  pushNoteBody: false,
+  autoSync: false,
+  autoSyncDelay: 10,
+  autoSyncIncludeFolders: [],
+  autoSyncExcludeFolders: [],
+  periodicPull: false,
+  pullInterval: 15,
+  previewBulkOperations: false,
+  snapshotsEnabled: true,
+  snapshotRetention: 10,
+  remoteDeletionPolicy: 'leave',
+  remoteDeletionArchiveFolder: 'Anytype Archive',
+  propagateLocalDeletions: false,
+  localDeletionAction: 'archive',
+  confirmLocalDeletions: true,
+  localDeletionFolders: [],
+  syncRenames: true,
+  folderTypeMapping: {},
+  pushLinkedNotes: false,
+  linkedNotesDepth: 1,
+  downloadAttachments: true,
+  attachmentsFolder: 'Attachments',
+  uploadAttachments: true,
+  requestConcurrency: DEFAULT_REQUEST_CONCURRENCY,
+  persistObjectNameCache: false,
+  objectNameCacheTtl: 60
 };
 
 export interface SyncStatus {
@@ -50,8 +127,24 @@ export interface AnyTypeObject {
   markdown?: string;
   space_id: string;
   properties: Record<string, string | number | boolean | string[] | null>;
+  archived?: boolean;
+  // Raw object ids of `objects` properties by key; the property values themselves may already be wikilinks
+  objectLinks?: Record<string, string[]>;
+  // Raw file ids of `files` properties by key
+  fileLinks?: Record<string, string[]>;
+}
+
+// Lightweight object info returned by search, used for change detection
+export interface AnyTypeObjectSummary {
+  id: string;
+  name: string;
+  type_key: string;
+  space_id: string;
+  last_modified_date: string | null;
 }
 
+export type AnyTypeObjectStatus = 'active' | 'archived' | 'deleted';
+
 export interface CreateObjectRequest {
   name?: string;
   type_key: string;
@@ -68,16 +161,44 @@ export interface SyncOptions {
   objectTypes?: string[];
   updateStatusCallback?: (status: string) => void;
   importFolder?: string;
+  incremental?: boolean;
+  pushNoteBody?: boolean;
+  remoteDeletionPolicy?: RemoteDeletionPolicy;
+  archiveFolder?: string;
+  folderTypeMapping?: Record<string, string>;
+  // How many link hops away unlinked notes are pushed along with a note; 0 pushes none
+  linkedNotesDepth?: number;
+  // Bulk operations stop before the next note once aborted, failing with an OperationCancelledError
+  signal?: AbortSignal;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+// Where a bulk operation is, reported after every item
+export interface SyncProgress {
+  // What the operation is doing, e.g. "Writing notes"
+  phase: string;
+  completed: number;
+  // Unknown while objects are still being listed
+  total?: number;
+  currentItem?: string;
+  // Items per outcome so far, e.g. { created: 3, updated: 5 }
+  counts: Record<string, number>;
 }
 
 export interface NoteCreationOptions {
   skipSystemProperties?: boolean;
   safeImport?: boolean;
   importFolder?: string;
+  // objectId → note path of every object in the vault or being imported, used to write exact links
+  linkTargets?: Map<string, string>;
 }
 
 export interface PropertyProcessingOptions {
   skipSystemProperties?: boolean;
+  // Object id for a `[[link]]` in an `objects` property value, null when the link has no object in the space
+  resolveObjectLink?: (linkTarget: string) => string | null;
+  // Anytype file id for a `[[link]]` to an attachment in a `files` property value
+  resolveFileLink?: (linkTarget: string) => string | null;
 }
 
 // Property value types based on Anytype API specification
@@ -101,8 +222,160 @@ export interface SyncResult {
   updated: number;
   failed: number;
   skipped?: number;
+  unchanged?: number;
+  pulled?: number;
+  conflicts?: number;
   byType?: Record<string, { created: number; updated: number; failed: number }>;
   objectTypes?: string[];
+  // Notes that could not be processed, with the reason
+  failures?: { path: string; error: string }[];
+  // Wikilinks pushed as plain text because they did not resolve to exactly one linked note
+  linkIssues?: LinkIssue[];
+  // Paths of linked notes that got an Anytype object so links to them could be converted
+  linkedNotesCreated?: string[];
+  // Linked notes that could not be pushed, with the reason; counted in `failed`
+  linkedNotesFailed?: { path: string; error: string }[];
+  // Linked notes whose object was deleted or archived in Anytype, with what was done to them
+  reconciled?: ReconciledNote[];
+}
+
+// A wikilink that was kept as written instead of becoming an Anytype link
+export interface LinkIssue {
+  link: string;
+  sourcePath: string;
+  // unresolved: no note found; ambiguous: several notes share the alias; unlinked: the note has no Anytype object (in this space)
+  reason: 'unresolved' | 'ambiguous' | 'unlinked';
+}
+
+// Notes picked for a bulk push: everything in a folder, or everything carrying a tag (nested tags included)
+export type PushSelection = { kind: 'folder'; path: string } | { kind: 'tag'; tag: string };
+
+// Notes whose Anytype object is gone, and what was done with them
+export interface ReconciledNote {
+  path: string;
+  name: string;
+  status: 'archived' | 'deleted';
+  action: RemoteDeletionPolicy;
+  newPath?: string;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  reconciled: ReconciledNote[];
+  failed: number;
+}
+
+// Dry-run preview - what a bulk operation would change, item by item
+export type SyncPlanOperation = 'import' | 'syncAll' | 'reImport';
+
+export interface SyncPlanChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SyncPlanItem {
+  objectId: string;
+  name: string;
+  direction: 'pull' | 'push';
+  action: 'create' | 'update';
+  path: string;
+  // Set when the note would be renamed to match the Anytype object name
+  newPath?: string;
+  // Pull: frontmatter keys of the note; push: Anytype properties sent in the PATCH
+  changes: SyncPlanChange[];
+  body?: { before: string; after: string };
+  conflicts: string[];
+  // Object fetched while planning, applied as-is for pulls
+  object?: AnyTypeObject;
+  // Planned note paths of a two-pass import, shared by all its items
+  linkTargets?: Map<string, string>;
+  // Set when the object is gone in Anytype: the remote deletion policy is applied to the note instead of a pull
+  remoteDeletion?: { status: 'archived' | 'deleted'; policy: RemoteDeletionPolicy; archiveFolder: string };
+}
+
+export interface SyncPlan {
+  operation: SyncPlanOperation;
+  items: SyncPlanItem[];
+  unchanged: number;
+  skipped: number;
+  failed: number;
+}
+
+// Sync ledger - what was last synced for each linked note/object pair
+export interface SyncLedgerEntry {
+  objectId: string;
+  spaceId: string;
+  path: string;
+  contentHash: string;
+  remoteContentHash?: string;
+  noteHash: string;
+  mtime: number;
+  properties: Record<string, unknown>;
+  remoteModifiedDate: string | null;
+  syncedAt: number;
+}
+
+export interface SyncLedgerData {
+  version: number;
+  entries: Record<string, SyncLedgerEntry>;
+  // Per space: remote changes up to this moment have been pulled
+  lastPullDates?: Record<string, string>;
+}
+
+// Attachments - every file downloaded by import or uploaded by push, keyed by Anytype file id
+export interface AttachmentIndexData {
+  version: number;
+  files: Record<string, AttachmentIndexEntry>;
+}
+
+export interface AttachmentIndexEntry {
+  path: string;
+  // File ids are only valid within their space
+  spaceId: string;
+}
+
+// Object name cache - Anytype object names by `spaceId/objectId`
+export interface ObjectNameCacheData {
+  version: number;
+  entries: Record<string, ObjectNameCacheEntry>;
+}
+
+export interface ObjectNameCacheEntry {
+  name: string;
+  cachedAt: number;
+}
+
+// Answer to the prompt shown when a linked note is deleted; trust applies the deletion action without asking for the rest of the session
+export type LocalDeletionChoice = 'apply' | 'keep' | 'trust';
+
+// Operations log - trace of plugin actions that change Anytype, kept in the plugin directory
+export interface OperationLogEntry {
+  timestamp: string;
+  operation: string;
+  outcome: 'done' | 'skipped' | 'failed';
+  path: string;
+  objectId?: string;
+  spaceId?: string;
+  detail?: string;
+}
+
+// Snapshots - note contents before an operation, restored by undo
+export interface SnapshotFileEntry {
+  // Path before the operation
+  path: string;
+  // Path after renames made by the operation
+  currentPath: string;
+  // null when the operation created the file
+  content: string | null;
+}
+
+export interface SnapshotData {
+  operation: string;
+  createdAt: number;
+  files: SnapshotFileEntry[];
+  // Ledger entries before the operation; null when the pair was not linked yet
+  ledgerEntries: Record<string, SyncLedgerEntry | null>;
 }
 
 // Space interfaces
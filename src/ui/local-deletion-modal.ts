@@ -0,0 +1,54 @@
+import { App, Modal } from 'obsidian';
+import { LocalDeletionAction, LocalDeletionChoice } from '../types';
+
+/**
+ * Asks whether the Anytype object of a deleted note should be archived or deleted too
+ * Closing the modal without an answer keeps the object
+ */
+export class LocalDeletionModal extends Modal {
+  private noteName: string;
+  private action: LocalDeletionAction;
+  private onChoose: (choice: LocalDeletionChoice) => void;
+  private choice: LocalDeletionChoice = 'keep';
+
+  constructor(app: App, noteName: string, action: LocalDeletionAction, onChoose: (choice: LocalDeletionChoice) => void) {
+    super(app);
+    this.noteName = noteName;
+    this.action = action;
+    this.onChoose = onChoose;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const verb = this.action === 'delete' ? 'Delete' : 'Archive';
+
+    contentEl.createEl('h2', { text: `${verb} in Anytype?` });
+    contentEl.createEl('p', {
+      text: this.action === 'delete'
+        ? `"${this.noteName}" was deleted in Obsidian. Delete its linked Anytype object as well? This cannot be undone from Obsidian.`
+        : `"${this.noteName}" was deleted in Obsidian. Archive its linked Anytype object as well? Archived objects can be restored from the Anytype bin.`
+    });
+
+    const buttonContainer = contentEl.createEl('div');
+    buttonContainer.style.cssText = 'display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;';
+
+    this.addChoiceButton(buttonContainer, 'Keep in Anytype', 'keep');
+    this.addChoiceButton(buttonContainer, `${verb}, don't ask again this session`, 'trust');
+    this.addChoiceButton(buttonContainer, verb, 'apply').addClass('mod-warning');
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.onChoose(this.choice);
+  }
+
+  private addChoiceButton(container: HTMLElement, text: string, choice: LocalDeletionChoice): HTMLButtonElement {
+    const button = container.createEl('button', { text, attr: { style: 'padding: 8px 16px;' } });
+    button.addEventListener('click', () => {
+      this.choice = choice;
+      this.close();
+    });
+    return button;
+  }
+}
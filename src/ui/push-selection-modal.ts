@@ -0,0 +1,44 @@
+import { App, FuzzySuggestModal, TFolder, getAllTags } from 'obsidian';
+import { PushSelection } from '../types';
+
+/**
+ * Picker for the folder or tag whose unlinked notes are pushed to Anytype
+ */
+export class PushSelectionModal extends FuzzySuggestModal<PushSelection> {
+  private onChoose: (selection: PushSelection) => void;
+
+  constructor(app: App, onChoose: (selection: PushSelection) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder('Choose a folder or #tag to push to Anytype');
+  }
+
+  getItems(): PushSelection[] {
+    const folders: PushSelection[] = this.app.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder)
+      .map(folder => ({ kind: 'folder' as const, path: folder.path }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const tagSet = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      (cache ? getAllTags(cache) || [] : []).forEach(tag => tagSet.add(tag));
+    }
+    const tags: PushSelection[] = Array.from(tagSet)
+      .sort((a, b) => a.localeCompare(b))
+      .map(tag => ({ kind: 'tag' as const, tag }));
+
+    return [...folders, ...tags];
+  }
+
+  getItemText(selection: PushSelection): string {
+    if (selection.kind === 'tag') {
+      return selection.tag;
+    }
+    return selection.path === '/' ? '/ (whole vault)' : selection.path;
+  }
+
+  onChooseItem(selection: PushSelection): void {
+    this.onChoose(selection);
+  }
+}
@@ -1,8 +1,9 @@
 import { App, PluginSettingTab, Setting, Notice, Modal } from 'obsidian';
 import AnyTypeSyncPlugin from '../../main';
 import { Logger } from '../utils/logger';
-import { AUTH_CODE_LENGTH } from '../constants';
-import { AnyTypeSpace, AnyTypeObjectType, AnyTypeProperty } from '../types';
+import { AnyTypeApiError } from '../services/api-request';
+import { AUTH_CODE_LENGTH, DEFAULT_REQUEST_CONCURRENCY } from '../constants';
+import { AnyTypeSpace, AnyTypeObjectType, AnyTypeProperty, RemoteDeletionPolicy, LocalDeletionAction } from '../types';
 
 export class AnyTypeSettingsTab extends PluginSettingTab {
   plugin: AnyTypeSyncPlugin;
@@ -558,6 +559,27 @@ export class AnyTypeSettingsTab extends PluginSettingTab {
     new PropertyKeyUpdateModal(this.app, this.properties, this.plugin, this.logger, () => this.refreshProperties()).open();
   }
 
+  private parseFolderList(value: string): string[] {
+    return value.split(/[\n,]/).map(folder => folder.trim()).filter(folder => folder.length > 0);
+  }
+
+  /**
+   * "folder: type_key" lines; the last colon separates the type so folder names may contain colons
+   */
+  private parseFolderTypeMapping(value: string): Record<string, string> {
+    const mapping: Record<string, string> = {};
+    for (const line of value.split('\n')) {
+      const separator = line.lastIndexOf(':');
+      if (separator === -1) continue;
+      const folder = line.substring(0, separator).trim();
+      const typeKey = line.substring(separator + 1).trim();
+      if (folder && typeKey) {
+        mapping[folder] = typeKey;
+      }
+    }
+    return mapping;
+  }
+
   private renderActions(containerEl: HTMLElement): void {
     containerEl.createEl('h3', { text: 'Sync Actions' });
 
@@ -645,6 +667,319 @@ export class AnyTypeSettingsTab extends PluginSettingTab {
           new Notice(`Safe Import ${status}. This ${value ? 'preserves' : 'replaces'} existing note content during imports.`);
         }));
 
+    new Setting(containerEl)
+      .setName('Folder object types')
+      .setDesc('Object type for notes pushed with "Push folder or tag to Anytype" that have no type_key, one "folder: type_key" per line. The deepest matching folder wins, other notes become pages')
+      .addTextArea(text => text
+        .setPlaceholder('e.g., Projects: project')
+        .setValue(Object.entries(this.plugin.settings.folderTypeMapping).map(([folder, typeKey]) => `${folder}: ${typeKey}`).join('\n'))
+        .onChange(async (value) => {
+          this.plugin.settings.folderTypeMapping = this.parseFolderTypeMapping(value);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Download attachments')
+      .setDesc('On import, download files and images referenced by Anytype objects into the vault and embed them instead of linking to Anytype. Each file is downloaded once')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.downloadAttachments)
+        .onChange(async (value) => {
+          this.plugin.settings.downloadAttachments = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Attachments folder')
+      .setDesc('Folder for downloaded files and images (leave empty for the vault root)')
+      .addText(text => text
+        .setPlaceholder('Attachments')
+        .setValue(this.plugin.settings.attachmentsFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.attachmentsFolder = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Upload attachments')
+      .setDesc('On push, upload vault files and images a note embeds or links to (and those in `files` properties) to Anytype and link them in the pushed body. Each file is uploaded once per space')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.uploadAttachments)
+        .onChange(async (value) => {
+          this.plugin.settings.uploadAttachments = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Push linked notes')
+      .setDesc('Before pushing a note, create Anytype objects for the unlinked notes it links to, so those links become Anytype links. Applies to the note body when it is pushed')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.pushLinkedNotes)
+        .onChange(async (value) => {
+          this.plugin.settings.pushLinkedNotes = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Linked notes depth')
+      .setDesc('How many links away notes are pushed along: 1 pushes only notes the pushed note links to, 2 also the notes those link to, and so on')
+      .addText(text => text
+        .setPlaceholder('1')
+        .setValue(String(this.plugin.settings.linkedNotesDepth))
+        .onChange(async (value) => {
+          const depth = parseInt(value, 10);
+          if (!isNaN(depth) && depth > 0) {
+            this.plugin.settings.linkedNotesDepth = depth;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Parallel requests')
+      .setDesc('How many Anytype objects an import fetches at the same time (object name lookups get as many again). Lower it if Anytype becomes unresponsive during large imports')
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_REQUEST_CONCURRENCY))
+        .setValue(String(this.plugin.settings.requestConcurrency))
+        .onChange(async (value) => {
+          const concurrency = parseInt(value, 10);
+          if (!isNaN(concurrency) && concurrency > 0) {
+            this.plugin.settings.requestConcurrency = concurrency;
+            this.plugin.apiService.setRequestConcurrency(concurrency);
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Keep object names between imports')
+      .setDesc('Save the names of linked Anytype objects in the plugin folder, so the next import does not look them up again. Off: every import starts with an empty name cache')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.persistObjectNameCache)
+        .onChange(async (value) => {
+          this.plugin.settings.persistObjectNameCache = value;
+          await this.plugin.saveSettings();
+          if (!value) {
+            await this.plugin.objectNameCache.clear();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Object name cache lifetime')
+      .setDesc('Minutes a looked-up object name is trusted before it is fetched again; 0 keeps names until the cache is emptied')
+      .addText(text => text
+        .setPlaceholder('60')
+        .setValue(String(this.plugin.settings.objectNameCacheTtl))
+        .onChange(async (value) => {
+          const ttl = parseInt(value, 10);
+          if (!isNaN(ttl) && ttl >= 0) {
+            this.plugin.settings.objectNameCacheTtl = ttl;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Sync renames')
+      .setDesc('Rename the Anytype object as soon as you rename its linked note. Notes renamed by an import keep their previous name as an alias')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.syncRenames)
+        .onChange(async (value) => {
+          this.plugin.settings.syncRenames = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Auto sync')
+      .setDesc('Push linked notes to Anytype in the background after you edit or rename them. Use the "Pause/resume auto sync" command to hold it temporarily')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoSync)
+        .onChange(async (value) => {
+          this.plugin.settings.autoSync = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateStatusBar();
+        }));
+
+    new Setting(containerEl)
+      .setName('Auto sync delay')
+      .setDesc('Seconds to wait after the last edit before pushing')
+      .addText(text => text
+        .setPlaceholder('10')
+        .setValue(String(this.plugin.settings.autoSyncDelay))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds) && seconds > 0) {
+            this.plugin.settings.autoSyncDelay = seconds;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Auto sync folders')
+      .setDesc('Only auto sync notes in these folders (one per line, leave empty for the whole vault)')
+      .addTextArea(text => text
+        .setPlaceholder('e.g., Projects')
+        .setValue(this.plugin.settings.autoSyncIncludeFolders.join('\n'))
+        .onChange(async (value) => {
+          this.plugin.settings.autoSyncIncludeFolders = this.parseFolderList(value);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Auto sync excluded folders')
+      .setDesc('Never auto sync notes in these folders (one per line)')
+      .addTextArea(text => text
+        .setPlaceholder('e.g., Private')
+        .setValue(this.plugin.settings.autoSyncExcludeFolders.join('\n'))
+        .onChange(async (value) => {
+          this.plugin.settings.autoSyncExcludeFolders = this.parseFolderList(value);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Periodic pull')
+      .setDesc('Regularly bring objects edited in Anytype into the vault. Only objects modified since the last pull are downloaded; new objects of the selected types are created. Use the "Pull changes from Anytype" command to pull right away')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.periodicPull)
+        .onChange(async (value) => {
+          this.plugin.settings.periodicPull = value;
+          await this.plugin.saveSettings();
+          this.plugin.schedulePeriodicPull();
+        }));
+
+    new Setting(containerEl)
+      .setName('Pull interval')
+      .setDesc('Minutes between periodic pulls')
+      .addText(text => text
+        .setPlaceholder('15')
+        .setValue(String(this.plugin.settings.pullInterval))
+        .onChange(async (value) => {
+          const minutes = parseInt(value, 10);
+          if (!isNaN(minutes) && minutes > 0) {
+            this.plugin.settings.pullInterval = minutes;
+            await this.plugin.saveSettings();
+            this.plugin.schedulePeriodicPull();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Preview bulk operations')
+      .setDesc('Show a dry-run preview before Import all, Sync All and Re-import change anything. Review the planned changes per note, then apply all, apply selected or cancel')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.previewBulkOperations)
+        .onChange(async (value) => {
+          this.plugin.settings.previewBulkOperations = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Objects deleted in Anytype')
+      .setDesc('What happens to linked notes whose object was deleted or archived in Anytype (checked on Re-import and with the "Check linked notes for objects deleted in Anytype" command)')
+      .addDropdown(dropdown => dropdown
+        .addOption('leave', 'Leave note, only report')
+        .addOption('mark', 'Mark with anytype_status')
+        .addOption('archive', 'Mark and move to archive folder')
+        .addOption('trash', 'Move note to trash')
+        .setValue(this.plugin.settings.remoteDeletionPolicy)
+        .onChange(async (value) => {
+          this.plugin.settings.remoteDeletionPolicy = value as RemoteDeletionPolicy;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Archive folder')
+      .setDesc('Folder for notes whose Anytype object was deleted, when the archive option is selected')
+      .addText(text => text
+        .setPlaceholder('Anytype Archive')
+        .setValue(this.plugin.settings.remoteDeletionArchiveFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.remoteDeletionArchiveFolder = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Propagate deleted notes to Anytype')
+      .setDesc('When a linked note is deleted in Obsidian, archive or delete its Anytype object too. Every archive and delete is recorded in operations.log in the plugin folder')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.propagateLocalDeletions)
+        .onChange(async (value) => {
+          this.plugin.settings.propagateLocalDeletions = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Action in Anytype')
+      .setDesc('Archive moves the object to the Anytype bin, where it can be restored. Delete removes it; Anytype versions whose API only archives keep it in the bin, which the notice and operations.log report')
+      .addDropdown(dropdown => dropdown
+        .addOption('archive', 'Archive object')
+        .addOption('delete', 'Delete object')
+        .setValue(this.plugin.settings.localDeletionAction)
+        .onChange(async (value) => {
+          this.plugin.settings.localDeletionAction = value as LocalDeletionAction;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Confirm before propagating')
+      .setDesc('Ask before archiving or deleting the Anytype object of a deleted note. The prompt can also trust deletions for the rest of the session')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.confirmLocalDeletions)
+        .onChange(async (value) => {
+          this.plugin.settings.confirmLocalDeletions = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Propagate deletions only in folders')
+      .setDesc('Only archive or delete objects of notes deleted from these folders (one per line, leave empty for the whole vault)')
+      .addTextArea(text => text
+        .setPlaceholder('e.g., Projects')
+        .setValue(this.plugin.settings.localDeletionFolders.join('\n'))
+        .onChange(async (value) => {
+          this.plugin.settings.localDeletionFolders = this.parseFolderList(value);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Snapshots')
+      .setDesc('Back up every note an Anytype operation is about to change, so the "Undo last Anytype operation" command can restore it. Snapshots are stored in the plugin folder')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.snapshotsEnabled)
+        .onChange(async (value) => {
+          this.plugin.settings.snapshotsEnabled = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Snapshots to keep')
+      .setDesc('Older snapshots are deleted automatically')
+      .addText(text => text
+        .setPlaceholder('10')
+        .setValue(String(this.plugin.settings.snapshotRetention))
+        .onChange(async (value) => {
+          const count = parseInt(value, 10);
+          if (!isNaN(count) && count > 0) {
+            this.plugin.settings.snapshotRetention = count;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Incremental Sync All')
+      .setDesc('Only push notes edited in Obsidian and pull objects edited in Anytype since the last sync. If disabled, Sync All pushes every linked note')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.incrementalSync)
+        .onChange(async (value) => {
+          this.plugin.settings.incrementalSync = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Push note body')
+      .setDesc('Send body edits of already linked notes to Anytype on sync. Wikilinks are converted to Anytype object links like on creation. The body is updated in place, so the object keeps its ID; a local API that cannot update bodies makes the push fail instead')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.pushNoteBody)
+        .onChange(async (value) => {
+          this.plugin.settings.pushNoteBody = value;
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Resolve object links')
       .setDesc('Convert object IDs to wikilinks (disable for faster imports on large spaces)')
@@ -1003,7 +1338,7 @@ class TypeKeyUpdateModal extends Modal {
 
     } catch (error) {
       this.logger.error(`Failed to update type key: ${error.message}`);
-      new Notice(`❌ Error: ${error.message}`);
+      new Notice(`❌ Error: ${error instanceof AnyTypeApiError ? error.userMessage : error.message}`);
     } finally {
       this.updateButton.disabled = false;
       this.updateButton.textContent = 'Update Type Key';
@@ -1253,7 +1588,7 @@ class PropertyKeyUpdateModal extends Modal {
 
     } catch (error) {
       this.logger.error(`Failed to update property key: ${error.message}`);
-      new Notice(`❌ Error: ${error.message}`);
+      new Notice(`❌ Error: ${error instanceof AnyTypeApiError ? error.userMessage : error.message}`);
     } finally {
       this.updateButton.disabled = false;
       this.updateButton.textContent = 'Update Property Key';
@@ -0,0 +1,275 @@
+import { App, Modal } from 'obsidian';
+import { SyncPlan, SyncPlanChange, SyncPlanItem, SyncPlanOperation } from '../types';
+
+interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+const OPERATION_TITLES: Record<SyncPlanOperation, string> = {
+  import: 'Import all objects from Anytype',
+  syncAll: 'Sync All',
+  reImport: 'Re-import all existing notes from Anytype'
+};
+
+// Beyond this many line pairs the body diff falls back to "replace everything"
+const MAX_DIFF_CELLS = 250000;
+// Unchanged lines shown around each change in a body diff
+const DIFF_CONTEXT_LINES = 2;
+
+/**
+ * Reviewable dry-run result of a bulk operation
+ * Every planned change is listed with its frontmatter/property and body diff; nothing is written until the user applies
+ */
+export class SyncPreviewModal extends Modal {
+  private plan: SyncPlan;
+  private onApply: (items: SyncPlanItem[]) => Promise<void>;
+  private selected = new Set<SyncPlanItem>();
+  private applySelectedButton: HTMLButtonElement;
+
+  constructor(app: App, plan: SyncPlan, onApply: (items: SyncPlanItem[]) => Promise<void>) {
+    super(app);
+    this.plan = plan;
+    this.onApply = onApply;
+    plan.items.forEach(item => this.selected.add(item));
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { plan } = this;
+
+    contentEl.createEl('h2', { text: `Preview: ${OPERATION_TITLES[plan.operation]}` });
+
+    const summaryParts = [`${plan.items.length} changes`, `${plan.unchanged} unchanged`];
+    if (plan.skipped > 0) summaryParts.push(`${plan.skipped} skipped`);
+    if (plan.failed > 0) summaryParts.push(`${plan.failed} could not be checked (see console)`);
+    contentEl.createEl('p', {
+      text: `Dry run: ${summaryParts.join(', ')}. Nothing has been changed yet.`,
+      attr: { style: 'color: var(--text-muted);' }
+    });
+
+    const buttonContainer = contentEl.createEl('div');
+    buttonContainer.style.cssText = 'display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;';
+
+    if (plan.items.length === 0) {
+      contentEl.appendChild(buttonContainer);
+      const closeButton = buttonContainer.createEl('button', { text: 'Close', attr: { style: 'padding: 8px 16px;' } });
+      closeButton.addEventListener('click', () => this.close());
+      return;
+    }
+
+    const listContainer = contentEl.createEl('div');
+    listContainer.style.cssText = `
+      max-height: 60vh; overflow-y: auto; border: 1px solid var(--background-modifier-border);
+      border-radius: 6px;
+    `;
+    plan.items.forEach(item => this.renderItem(listContainer, item));
+
+    contentEl.appendChild(buttonContainer);
+
+    const cancelButton = buttonContainer.createEl('button', { text: 'Cancel', attr: { style: 'padding: 8px 16px;' } });
+    cancelButton.addEventListener('click', () => this.close());
+
+    this.applySelectedButton = buttonContainer.createEl('button', { attr: { style: 'padding: 8px 16px;' } });
+    this.applySelectedButton.addEventListener('click', () => this.apply(plan.items.filter(item => this.selected.has(item))));
+    this.updateApplySelectedButton();
+
+    const applyAllButton = buttonContainer.createEl('button', { text: `Apply all (${plan.items.length})`, attr: { style: 'padding: 8px 16px;' } });
+    applyAllButton.addClass('mod-cta');
+    applyAllButton.addEventListener('click', () => this.apply(plan.items));
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private renderItem(container: HTMLElement, item: SyncPlanItem) {
+    const row = container.createEl('div');
+    row.style.cssText = 'padding: 10px 12px; border-bottom: 1px solid var(--background-modifier-border);';
+
+    const header = row.createEl('label');
+    header.style.cssText = 'display: flex; align-items: center; gap: 8px; cursor: pointer;';
+
+    const checkbox = header.createEl('input', { type: 'checkbox' });
+    checkbox.checked = true;
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.selected.add(item);
+      } else {
+        this.selected.delete(item);
+      }
+      this.updateApplySelectedButton();
+    });
+
+    header.createEl('span', {
+      text: this.describeAction(item),
+      attr: { style: 'font-size: 12px; padding: 1px 6px; border-radius: 4px; background: var(--background-modifier-hover); color: var(--text-muted);' }
+    });
+    header.createEl('span', { text: item.name, attr: { style: 'font-weight: bold; color: var(--text-normal);' } });
+
+    const pathText = item.newPath ? `${item.path} → ${item.newPath}` : item.path;
+    row.createEl('div', {
+      text: pathText,
+      attr: { style: 'margin-left: 24px; color: var(--text-muted); font-family: var(--font-monospace); font-size: 12px;' }
+    });
+
+    if (item.conflicts.length > 0) {
+      row.createEl('div', {
+        text: `⚠️ Conflicts (Obsidian value kept, .conflict.md written): ${item.conflicts.join(', ')}`,
+        attr: { style: 'margin-left: 24px; color: var(--text-warning); font-size: 12px;' }
+      });
+    }
+
+    const detailCount = item.changes.length + (item.body ? 1 : 0);
+    if (detailCount === 0) {
+      return;
+    }
+
+    const details = row.createEl('details');
+    details.style.cssText = 'margin: 6px 0 0 24px;';
+    details.createEl('summary', {
+      text: `Show changes (${item.changes.length} ${item.direction === 'push' ? 'properties' : 'frontmatter keys'}${item.body ? ' + body' : ''})`,
+      attr: { style: 'cursor: pointer; color: var(--text-muted); font-size: 13px;' }
+    });
+
+    if (item.changes.length > 0) {
+      this.renderChanges(details, item.changes, item.direction === 'push' ? ['Property', 'In Anytype', 'Pushed'] : ['Key', 'In note', 'After import']);
+    }
+    if (item.body) {
+      this.renderBodyDiff(details, item.body.before, item.body.after);
+    }
+  }
+
+  private renderChanges(container: HTMLElement, changes: SyncPlanChange[], headings: string[]) {
+    const table = container.createEl('table');
+    table.style.cssText = 'width: 100%; margin-top: 6px; font-size: 12px; border-collapse: collapse;';
+
+    const headRow = table.createEl('tr');
+    headings.forEach(heading => headRow.createEl('th', { text: heading, attr: { style: 'text-align: left; padding: 2px 6px;' } }));
+
+    for (const change of changes) {
+      const tableRow = table.createEl('tr');
+      tableRow.createEl('td', { text: change.key, attr: { style: 'padding: 2px 6px; font-family: var(--font-monospace);' } });
+      tableRow.createEl('td', { text: this.formatValue(change.before), attr: { style: 'padding: 2px 6px; color: var(--text-error);' } });
+      tableRow.createEl('td', { text: this.formatValue(change.after), attr: { style: 'padding: 2px 6px; color: var(--text-success);' } });
+    }
+  }
+
+  private renderBodyDiff(container: HTMLElement, before: string, after: string) {
+    const pre = container.createEl('pre');
+    pre.style.cssText = `
+      margin-top: 6px; padding: 6px; max-height: 300px; overflow: auto; font-size: 12px;
+      background: var(--background-secondary); border-radius: 4px; white-space: pre-wrap;
+    `;
+
+    const lines = diffLines(before, after);
+    lines.forEach((line, index) => {
+      if (!this.isShownLine(lines, index)) {
+        // One marker per run of hidden unchanged lines
+        if (index === 0 || this.isShownLine(lines, index - 1)) {
+          pre.createEl('div', { text: '…', attr: { style: 'color: var(--text-faint);' } });
+        }
+        return;
+      }
+
+      const prefix = line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  ';
+      const color = line.type === 'add' ? 'var(--text-success)' : line.type === 'remove' ? 'var(--text-error)' : 'var(--text-muted)';
+      pre.createEl('div', { text: prefix + line.text, attr: { style: `color: ${color};` } });
+    });
+  }
+
+  /**
+   * Changed lines and the unchanged lines close to a change are shown
+   */
+  private isShownLine(lines: DiffLine[], index: number): boolean {
+    return lines
+      .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+      .some(other => other.type !== 'same');
+  }
+
+  private describeAction(item: SyncPlanItem): string {
+    if (item.remoteDeletion) {
+      const policyLabels = { leave: 'leave note', mark: 'mark note', archive: 'move to archive folder', trash: 'trash note' };
+      return `${item.remoteDeletion.status === 'deleted' ? 'Deleted' : 'Archived'} in Anytype: ${policyLabels[item.remoteDeletion.policy]}`;
+    }
+    if (item.direction === 'push') return 'Push to Anytype';
+    if (item.action === 'create') return 'Create note';
+    if (item.newPath) return 'Rename + update note';
+    return item.body ? 'Overwrite note' : 'Update note';
+  }
+
+  private formatValue(value: any): string {
+    if (value === null || value === undefined) return '(none)';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  private updateApplySelectedButton() {
+    this.applySelectedButton.textContent = `Apply selected (${this.selected.size})`;
+    this.applySelectedButton.disabled = this.selected.size === 0;
+  }
+
+  private apply(items: SyncPlanItem[]) {
+    if (items.length === 0) return;
+    this.close();
+    this.onApply(items);
+  }
+}
+
+/**
+ * Line diff of two texts (longest common subsequence after trimming the shared head and tail)
+ */
+function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before.length > 0 ? before.split('\n') : [];
+  const newLines = after.length > 0 ? after.split('\n') : [];
+
+  let head = 0;
+  while (head < oldLines.length && head < newLines.length && oldLines[head] === newLines[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (tail < oldLines.length - head && tail < newLines.length - head &&
+         oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]) {
+    tail++;
+  }
+
+  const oldMiddle = oldLines.slice(head, oldLines.length - tail);
+  const newMiddle = newLines.slice(head, newLines.length - tail);
+  const result: DiffLine[] = oldLines.slice(0, head).map(text => ({ type: 'same' as const, text }));
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    oldMiddle.forEach(text => result.push({ type: 'remove', text }));
+    newMiddle.forEach(text => result.push({ type: 'add', text }));
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths: number[][] = Array.from({ length: oldMiddle.length + 1 }, () => new Array(newMiddle.length + 1).fill(0));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'same', text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        result.push({ type: 'remove', text: oldMiddle[i++] });
+      } else {
+        result.push({ type: 'add', text: newMiddle[j++] });
+      }
+    }
+    while (i < oldMiddle.length) result.push({ type: 'remove', text: oldMiddle[i++] });
+    while (j < newMiddle.length) result.push({ type: 'add', text: newMiddle[j++] });
+  }
+
+  oldLines.slice(oldLines.length - tail).forEach(text => result.push({ type: 'same', text }));
+  return result;
+}
@@ -0,0 +1,125 @@
+import { App, Modal } from 'obsidian';
+import { SyncProgress } from '../types';
+
+/**
+ * Progress of a long-running bulk operation, with a Cancel button that aborts `signal`
+ * The operation stops before its next note, so notes already processed stay as they are. Closing the modal
+ * only hides it; the operation keeps running and still reports to the status bar
+ */
+export class SyncProgressModal extends Modal {
+  private title: string;
+  private controller = new AbortController();
+  private progress: SyncProgress | null = null;
+  // The ETA covers the current phase only; earlier phases run at a different pace
+  private phaseStartedAt = Date.now();
+  private phaseEl: HTMLElement | null = null;
+  private barEl: HTMLElement | null = null;
+  private itemEl: HTMLElement | null = null;
+  private countsEl: HTMLElement | null = null;
+  private cancelButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, title: string) {
+    super(app);
+    this.title = title;
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  update(progress: SyncProgress): void {
+    if (!this.progress || this.progress.phase !== progress.phase) {
+      this.phaseStartedAt = Date.now();
+    }
+    this.progress = progress;
+    this.render();
+  }
+
+  /**
+   * Outcome counts of the last progress report, e.g. "3 created, 5 updated"
+   */
+  getSummary(): string {
+    const counts = this.progress ? this.progress.counts : {};
+    return Object.entries(counts)
+      .filter(([, count]) => count > 0)
+      .map(([outcome, count]) => `${count} ${outcome}`)
+      .join(', ');
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: this.title });
+    this.phaseEl = contentEl.createEl('p');
+    this.barEl = contentEl.createEl('progress', { attr: { style: 'width: 100%;' } });
+    this.itemEl = contentEl.createEl('p', { attr: { style: 'color: var(--text-muted); overflow: hidden; text-overflow: ellipsis; white-space: nowrap;' } });
+    this.countsEl = contentEl.createEl('p');
+    contentEl.createEl('p', {
+      text: 'Closing this window keeps the operation running in the background.',
+      attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+    });
+
+    const buttonContainer = contentEl.createEl('div');
+    buttonContainer.style.cssText = 'display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;';
+    this.cancelButton = buttonContainer.createEl('button', { text: 'Cancel', attr: { style: 'padding: 8px 16px;' } });
+    this.cancelButton.addClass('mod-warning');
+    this.cancelButton.addEventListener('click', () => {
+      this.controller.abort();
+      this.render();
+    });
+
+    this.render();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.phaseEl = null;
+    this.barEl = null;
+    this.itemEl = null;
+    this.countsEl = null;
+    this.cancelButton = null;
+  }
+
+  private render(): void {
+    if (!this.phaseEl || !this.barEl || !this.itemEl || !this.countsEl || !this.cancelButton) {
+      return;
+    }
+    const progress = this.progress;
+
+    if (this.signal.aborted) {
+      this.phaseEl.setText('Cancelling after the current note...');
+      this.cancelButton.disabled = true;
+      this.cancelButton.setText('Cancelling...');
+    } else if (!progress) {
+      this.phaseEl.setText('Starting...');
+    } else {
+      const position = progress.total !== undefined ? `${progress.completed} of ${progress.total}` : `${progress.completed}`;
+      const eta = this.formatEta(progress);
+      this.phaseEl.setText(`${progress.phase}: ${position}${eta ? ` · ${eta}` : ''}`);
+    }
+
+    // Without a total the bar stays indeterminate
+    if (progress && progress.total) {
+      this.barEl.setAttr('max', progress.total);
+      this.barEl.setAttr('value', progress.completed);
+    } else {
+      this.barEl.removeAttribute('value');
+    }
+
+    this.itemEl.setText(progress && progress.currentItem ? progress.currentItem : '');
+    this.countsEl.setText(this.getSummary().split(', ').join(' · '));
+  }
+
+  private formatEta(progress: SyncProgress): string {
+    if (!progress.total || progress.completed === 0 || progress.completed >= progress.total) {
+      return '';
+    }
+    const elapsedMs = Date.now() - this.phaseStartedAt;
+    const remainingSeconds = Math.round(elapsedMs / progress.completed * (progress.total - progress.completed) / 1000);
+    if (remainingSeconds < 60) {
+      return `about ${Math.max(remainingSeconds, 1)} s left`;
+    }
+    return `about ${Math.round(remainingSeconds / 60)} min left`;
+  }
+}
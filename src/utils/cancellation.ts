@@ -0,0 +1,16 @@
+/**
+ * Thrown when a long-running operation stops because its abort signal fired
+ * Operations only stop between items, so everything processed before the cancellation is complete and kept
+ */
+export class OperationCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'OperationCancelledError';
+  }
+
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal && signal.aborted) {
+      throw new OperationCancelledError();
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { TextProcessor } from './text-processor';
+
+export interface PropertyConflict {
+  key: string;
+  base: any;
+  local: any;
+  remote: any;
+}
+
+export interface PropertyMergeResult {
+  merged: Record<string, any>;
+  localChanges: string[];
+  remoteChanges: string[];
+  conflicts: PropertyConflict[];
+}
+
+export type BodyMergeOutcome = 'remote' | 'local' | 'conflict';
+
+// Identity fields are owned by the sync itself and never merged
+const MERGE_IGNORED_KEYS = ['id', 'space_id', 'type_key', 'name'];
+
+/**
+ * Three-way merge helpers for notes edited in both Obsidian and Anytype
+ * The base version comes from the sync ledger snapshot of the last successful sync
+ */
+export class ConflictResolver {
+  /**
+   * Merge Anytype-owned frontmatter properties key by key
+   * A side that still matches the base yields to the other side; both sides changed differently is a conflict
+   */
+  static mergeProperties(base: Record<string, any>, local: Record<string, any>, remote: Record<string, any>): PropertyMergeResult {
+    const result: PropertyMergeResult = { merged: {}, localChanges: [], remoteChanges: [], conflicts: [] };
+    const keys = new Set([...Object.keys(base || {}), ...Object.keys(remote || {})]);
+
+    keys.forEach(key => {
+      if (MERGE_IGNORED_KEYS.includes(key)) return;
+
+      const baseValue = base?.[key];
+      const localValue = local?.[key];
+      const remoteValue = remote?.[key];
+
+      if (this.valuesEqual(localValue, remoteValue)) {
+        this.setMerged(result.merged, key, remoteValue);
+      } else if (this.valuesEqual(localValue, baseValue)) {
+        this.setMerged(result.merged, key, remoteValue);
+        result.remoteChanges.push(key);
+      } else if (this.valuesEqual(remoteValue, baseValue)) {
+        this.setMerged(result.merged, key, localValue);
+        result.localChanges.push(key);
+      } else {
+        // Keep the Obsidian value in the note; the Anytype value goes to the conflict file
+        this.setMerged(result.merged, key, localValue);
+        result.conflicts.push({ key, base: baseValue, local: localValue, remote: remoteValue });
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Decide which body wins given the hashes recorded at the last sync
+   * Unknown base hashes count as unchanged for that side
+   */
+  static mergeBody(localBody: string, remoteBody: string, baseLocalHash: string, baseRemoteHash: string): BodyMergeOutcome {
+    const localHash = TextProcessor.hashContent(localBody);
+    const remoteHash = TextProcessor.hashContent(remoteBody);
+
+    if (localHash === remoteHash) return 'remote';
+
+    const localChanged = !!baseLocalHash && localHash !== baseLocalHash;
+    const remoteChanged = !!baseRemoteHash && remoteHash !== baseRemoteHash;
+
+    if (localChanged && remoteChanged) return 'conflict';
+    if (localChanged) return 'local';
+    return 'remote';
+  }
+
+  /**
+   * Compare property values after the same sanitization used for frontmatter
+   */
+  static valuesEqual(a: any, b: any): boolean {
+    const normalizedA = this.normalizeValue(a);
+    const normalizedB = this.normalizeValue(b);
+    return JSON.stringify(normalizedA) === JSON.stringify(normalizedB);
+  }
+
+  /**
+   * Build the markdown for a `.conflict.md` sibling note
+   * It carries no Anytype metadata so it is never picked up as a linked note
+   */
+  static buildConflictNote(noteName: string, conflicts: PropertyConflict[], remoteBody: string | null): string {
+    let content = `# Sync conflict: ${noteName}\n\n`;
+    content += `Detected ${new Date().toLocaleString()}. The Obsidian version was kept in [[${noteName}]]. `;
+    content += 'Copy over what you need from the Anytype version below, then delete this file. ';
+    content += 'The next sync pushes the Obsidian version to Anytype.\n\n';
+
+    if (conflicts.length > 0) {
+      content += '## Properties\n\n| Property | Obsidian | Anytype |\n| --- | --- | --- |\n';
+      for (const conflict of conflicts) {
+        content += `| ${conflict.key} | ${this.formatCell(conflict.local)} | ${this.formatCell(conflict.remote)} |\n`;
+      }
+      content += '\n';
+    }
+
+    if (remoteBody !== null) {
+      content += `## Anytype body\n\n${remoteBody}\n`;
+    }
+
+    return content;
+  }
+
+  private static normalizeValue(value: any): any {
+    if (value === undefined || value === null || value === '') return null;
+    if (Array.isArray(value) && value.length === 0) return null;
+    return TextProcessor.sanitizePropertyValue(value);
+  }
+
+  private static setMerged(merged: Record<string, any>, key: string, value: any): void {
+    if (value !== undefined && value !== null) {
+      merged[key] = value;
+    }
+  }
+
+  private static formatCell(value: any): string {
+    if (value === undefined || value === null) return '*(empty)*';
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  }
+}
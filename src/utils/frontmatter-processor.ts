@@ -0,0 +1,184 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+
+export interface NoteSections {
+  // Raw YAML between the `---` fences, null when the note has no frontmatter
+  frontmatter: string | null;
+  body: string;
+}
+
+interface FrontmatterBlock {
+  key: string | null;
+  // Key line plus its value lines (indented lines, block sequence items)
+  valueLines: string[];
+  // Comments and blank lines following the value, kept even when the value is rewritten
+  trailingLines: string[];
+}
+
+const KEY_LINE_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#:'"\-?][^:]*?|-[^\s:][^:]*?)\s*:(?:\s|$)/;
+
+/**
+ * YAML frontmatter round-trip layer
+ * Parsing and value serialization go through Obsidian's YAML implementation; edits are applied per top-level key
+ * so key order, comments and untouched keys of the user's frontmatter stay exactly as written
+ */
+export class FrontmatterProcessor {
+  /**
+   * Split note content into raw frontmatter and body
+   * One blank line after the closing fence is treated as part of the separator
+   */
+  static split(content: string): NoteSections {
+    const lines = (content || '').split('\n');
+    if (lines.length < 2 || lines[0].replace(/\r$/, '').trimEnd() !== '---') {
+      return { frontmatter: null, body: content || '' };
+    }
+
+    const closingIndex = lines.findIndex((line, index) => index > 0 && line.replace(/\r$/, '').trimEnd() === '---');
+    if (closingIndex === -1) {
+      return { frontmatter: null, body: content };
+    }
+
+    const frontmatter = lines.slice(1, closingIndex).map(line => line.replace(/\r$/, '')).join('\n');
+    let bodyLines = lines.slice(closingIndex + 1);
+    if (bodyLines.length > 0 && bodyLines[0].replace(/\r$/, '') === '') {
+      bodyLines = bodyLines.slice(1);
+    }
+
+    return { frontmatter, body: bodyLines.join('\n') };
+  }
+
+  /**
+   * Parse raw frontmatter into a plain object; throws on invalid YAML
+   */
+  static parse(frontmatter: string | null): Record<string, any> {
+    if (!frontmatter || frontmatter.trim().length === 0) {
+      return {};
+    }
+
+    const parsed = parseYaml(frontmatter);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return {};
+    }
+    return parsed;
+  }
+
+  /**
+   * Serialize values into fresh frontmatter, in insertion order
+   */
+  static stringify(values: Record<string, any>): string {
+    const entries = Object.entries(values).filter(([, value]) => value !== null && value !== undefined);
+    if (entries.length === 0) {
+      return '';
+    }
+    return stringifyYaml(Object.fromEntries(entries)).trimEnd();
+  }
+
+  /**
+   * Apply changes to existing frontmatter text
+   * Keys whose value is unchanged keep their original text, changed keys are rewritten in place,
+   * new keys are appended in the given order and `removeKeys` are dropped
+   */
+  static update(frontmatter: string, changes: Record<string, any>, removeKeys: string[] = []): string {
+    const current = this.parse(frontmatter);
+    const blocks = this.splitBlocks(frontmatter);
+    const remove = new Set(removeKeys);
+    const seen = new Set<string>();
+
+    const output: string[] = [];
+    for (const block of blocks) {
+      if (block.key === null) {
+        output.push(...block.valueLines, ...block.trailingLines);
+        continue;
+      }
+
+      seen.add(block.key);
+      const change = changes[block.key];
+      const hasChange = Object.prototype.hasOwnProperty.call(changes, block.key);
+
+      if (remove.has(block.key) || (hasChange && (change === null || change === undefined))) {
+        output.push(...block.trailingLines);
+      } else if (hasChange && !this.valuesEqual(current[block.key], change)) {
+        output.push(...this.serializeEntry(block.key, change), ...block.trailingLines);
+      } else {
+        output.push(...block.valueLines, ...block.trailingLines);
+      }
+    }
+
+    // Drop blank lines left at the end before appending new keys
+    while (output.length > 0 && output[output.length - 1].trim() === '') {
+      output.pop();
+    }
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (!seen.has(key) && !remove.has(key) && value !== null && value !== undefined) {
+        output.push(...this.serializeEntry(key, value));
+      }
+    }
+
+    return output.join('\n');
+  }
+
+  /**
+   * Build the full frontmatter block (with fences) that precedes the note body
+   */
+  static wrap(frontmatter: string): string {
+    const trimmed = frontmatter.replace(/\s+$/, '');
+    return trimmed.length > 0 ? `---\n${trimmed}\n---\n\n` : '';
+  }
+
+  private static serializeEntry(key: string, value: any): string[] {
+    return stringifyYaml({ [key]: value }).trimEnd().split('\n');
+  }
+
+  private static valuesEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private static splitBlocks(frontmatter: string): FrontmatterBlock[] {
+    const blocks: FrontmatterBlock[] = [];
+    let currentBlock: FrontmatterBlock = { key: null, valueLines: [], trailingLines: [] };
+
+    for (const line of frontmatter.split('\n')) {
+      const keyMatch = line.match(KEY_LINE_PATTERN);
+      if (keyMatch) {
+        blocks.push(currentBlock);
+        currentBlock = { key: this.unquoteKey(keyMatch[1].trim()), valueLines: [line], trailingLines: [] };
+        continue;
+      }
+
+      const isFiller = line.trim() === '' || line.trimStart().startsWith('#');
+      if (isFiller) {
+        // Comments inside a block scalar are content, not comments
+        const inBlockScalar = currentBlock.key !== null &&
+          currentBlock.trailingLines.length === 0 &&
+          /[|>][-+0-9]*\s*$/.test(currentBlock.valueLines[0]) &&
+          line.startsWith(' ');
+        if (inBlockScalar) {
+          currentBlock.valueLines.push(line);
+        } else {
+          currentBlock.trailingLines.push(line);
+        }
+      } else {
+        // Continuation of the current value; any filler seen so far belongs to it
+        currentBlock.valueLines.push(...currentBlock.trailingLines, line);
+        currentBlock.trailingLines = [];
+      }
+    }
+    blocks.push(currentBlock);
+
+    return blocks.filter(block => block.key !== null || block.valueLines.length + block.trailingLines.length > 0);
+  }
+
+  private static unquoteKey(key: string): string {
+    if (key.startsWith('"')) {
+      try {
+        return JSON.parse(key);
+      } catch {
+        return key.slice(1, -1);
+      }
+    }
+    if (key.startsWith("'")) {
+      return key.slice(1, -1).replace(/''/g, "'");
+    }
+    return key;
+  }
+}
@@ -20,4 +20,21 @@ export { TextProcessor } from './text-processor';
 export { WikilinkResolver } from './wikilink-resolver';
 
 // Tag Resolution
-export { TagResolver } from './tag-resolver';
\ No newline at end of file
+export { TagResolver } from './tag-resolver';
+
+// Conflict Resolution
+export { ConflictResolver } from './conflict-resolver';
+export type { PropertyConflict, PropertyMergeResult, BodyMergeOutcome } from './conflict-resolver';
+
+// Vault paths
+export { PathUtils } from './path-utils';
+
+// Frontmatter
+export { FrontmatterProcessor } from './frontmatter-processor';
+export type { NoteSections } from './frontmatter-processor';
+
+// Request concurrency
+export { RequestPool } from './request-pool';
+
+// Cancellation
+export { OperationCancelledError } from './cancellation';
@@ -0,0 +1,17 @@
+import { normalizePath } from 'obsidian';
+
+/**
+ * Vault path helpers shared by the folder-scoped features
+ */
+export class PathUtils {
+  /**
+   * Whether a path lies inside a folder; an empty folder or "/" means the whole vault
+   */
+  static isInFolder(path: string, folder: string): boolean {
+    const normalizedFolder = normalizePath(folder.trim()).replace(/\/+$/, '');
+    if (!normalizedFolder || normalizedFolder === '/') {
+      return true;
+    }
+    return path === normalizedFolder || path.startsWith(`${normalizedFolder}/`);
+  }
+}
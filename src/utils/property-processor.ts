@@ -1,6 +1,6 @@
 import { PropertyValue } from '../types';
 import { Logger } from './logger';
-import { ALLOWED_PROPERTY_FORMATS, READ_ONLY_PROPERTIES, SYSTEM_PROPERTIES } from '../constants/property-filters';
+import { ALLOWED_PROPERTY_FORMATS, OBSIDIAN_ONLY_PROPERTIES, READ_ONLY_PROPERTIES, SYSTEM_PROPERTIES } from '../constants/property-filters';
 import { PropertyProcessingOptions } from '../types';
 import { TagResolver } from './tag-resolver';
 
@@ -148,6 +148,12 @@ export class PropertyProcessor {
         this.logger.debug(`Skipping read-only property for update: ${key}`);
         continue;
       }
+
+      // Obsidian-only keys such as aliases stay in the note
+      if (OBSIDIAN_ONLY_PROPERTIES.includes(key as any)) {
+        preservedProperties.push(key);
+        continue;
+      }
       
       // Check if property exists in available properties
       const propertyDef = propertyMap.get(key);
@@ -157,7 +163,7 @@ export class PropertyProcessor {
         if (inferredFormat) {
           this.logger.info(`Property "${key}" not found in Anytype, inferring format as "${inferredFormat}" and attempting sync`);
           // Create a mock property definition for processing (used for logging context)
-          const formattedProperty = this.formatForAPI(key, value, inferredFormat, undefined);
+          const formattedProperty = this.formatForAPI(key, value, inferredFormat, undefined, options);
           if (formattedProperty) {
             extractedProperties.push(formattedProperty);
             this.logger.debug(`Syncing inferred property: ${key} (${inferredFormat})`);
@@ -176,7 +182,7 @@ export class PropertyProcessor {
       }
       
       // Format property according to its type
-      const formattedProperty = this.formatForAPI(key, value, propertyDef.format, propertyDef.id);
+      const formattedProperty = this.formatForAPI(key, value, propertyDef.format, propertyDef.id, options);
       if (formattedProperty) {
         extractedProperties.push(formattedProperty);
         this.logger.debug(`Extracted property for update: ${key} (${propertyDef.format})`);
@@ -219,6 +225,12 @@ export class PropertyProcessor {
         this.logger.debug(`Skipping read-only property for creation: ${key}`);
         continue;
       }
+
+      // Obsidian-only keys such as aliases stay in the note
+      if (OBSIDIAN_ONLY_PROPERTIES.includes(key as any)) {
+        preservedProperties.push(key);
+        continue;
+      }
       
       // Check if property exists in available properties
       const propertyDef = propertyMap.get(key);
@@ -228,7 +240,7 @@ export class PropertyProcessor {
         if (inferredFormat) {
           this.logger.info(`Property "${key}" not found in Anytype, inferring format as "${inferredFormat}" and attempting sync`);
           // Create a mock property definition for processing
-          const formattedProperty = this.formatForAPI(key, value, inferredFormat, undefined);
+          const formattedProperty = this.formatForAPI(key, value, inferredFormat, undefined, options);
           if (formattedProperty) {
             validatedProperties.push(formattedProperty);
             this.logger.debug(`Syncing inferred property: ${key} (${inferredFormat})`);
@@ -247,7 +259,7 @@ export class PropertyProcessor {
       }
       
       // Format property according to its type
-      const formattedProperty = this.formatForAPI(key, value, propertyDef.format, propertyDef.id);
+      const formattedProperty = this.formatForAPI(key, value, propertyDef.format, propertyDef.id, options);
       if (formattedProperty) {
         validatedProperties.push(formattedProperty);
         this.logger.debug(`Added validated property: ${key} (${propertyDef.format})`);
@@ -277,6 +289,11 @@ export class PropertyProcessor {
    * Enhanced with DRY tag detection
    */
   private inferPropertyFormat(key: string, value: any): string | null {
+    // Priority 0: values made up of wikilinks only are relations to other notes
+    if (this.isObjectLinkValue(value)) {
+      return 'objects';
+    }
+
     // Priority 1: Tag-like properties (most important for user's issue)
     if (this.isTagProperty(key)) {
       if (Array.isArray(value)) {
@@ -413,8 +430,9 @@ export class PropertyProcessor {
    * Format a property value for API submission based on its type
    * Enhanced to handle all Anytype property types with robust validation
    * DRY implementation using unified tag processing
+   * `[[links]]` in `objects` and `files` values become object and file ids via `resolveObjectLink` and `resolveFileLink`
    */
-  private formatForAPI(key: string, value: any, format: string, propertyId?: string): PropertyValue | null {
+  private formatForAPI(key: string, value: any, format: string, propertyId?: string, links: Pick<PropertyProcessingOptions, 'resolveObjectLink' | 'resolveFileLink'> = {}): PropertyValue | null {
     try {
       // Handle null/undefined values - but allow arrays and objects to be processed by their specific handlers
       if (value === null || value === undefined) {
@@ -538,8 +556,8 @@ export class PropertyProcessor {
                           .map(v => String(v).trim())
                           .filter(v => v.length > 0);
           } else if (typeof value === 'string') {
-            // Single file ID or comma-separated
-            fileIds = value.split(',')
+            // Attachment links, else a single file ID or comma-separated
+            fileIds = (value.match(/\[\[[^\]]+\]\]/g) || value.split(','))
                           .map(v => v.trim())
                           .filter(v => v.length > 0);
           } else {
@@ -547,6 +565,8 @@ export class PropertyProcessor {
             return null;
           }
           
+          fileIds = this.resolveLinkValues(key, fileIds, links.resolveFileLink);
+
           if (fileIds.length === 0) {
             this.logger.debug(`Empty files array for property "${key}"`);
             return null;
@@ -564,8 +584,8 @@ export class PropertyProcessor {
                             .map(v => String(v).trim())
                             .filter(v => v.length > 0);
           } else if (typeof value === 'string') {
-            // Single object ID or comma-separated
-            objectIds = value.split(',')
+            // Wikilinks (their names may contain commas), else a single object ID or comma-separated
+            objectIds = (value.match(/\[\[[^\]]+\]\]/g) || value.split(','))
                             .map(v => v.trim())
                             .filter(v => v.length > 0);
           } else {
@@ -573,6 +593,8 @@ export class PropertyProcessor {
             return null;
           }
           
+          objectIds = this.resolveLinkValues(key, objectIds, links.resolveObjectLink);
+          
           if (objectIds.length === 0) {
             this.logger.debug(`Empty objects array for property "${key}"`);
             return null;
@@ -590,4 +612,33 @@ export class PropertyProcessor {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Replace `[[link]]` values of an `objects` or `files` property with the Anytype ids of what they link to
+   * Links without an Anytype counterpart are left out, Anytype only accepts ids
+   */
+  private resolveLinkValues(key: string, values: string[], resolveLink?: (linkTarget: string) => string | null): string[] {
+    const ids: string[] = [];
+
+    for (const value of values) {
+      const link = value.match(/^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/);
+      const id = link ? (resolveLink ? resolveLink(link[1].trim()) : null) : value;
+      if (!id) {
+        this.logger.warn(`Leaving ${value} out of property "${key}": it has no Anytype counterpart`);
+      } else if (!ids.includes(id)) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Whether a frontmatter value consists of wikilinks only, e.g. `"[[Project X]]"` or `["[[A]]", "[[B]]"]`
+   */
+  private isObjectLinkValue(value: any): boolean {
+    if (Array.isArray(value)) {
+      return value.length > 0 && value.every(v => typeof v === 'string' && /^\s*\[\[[^\]]+\]\]\s*$/.test(v));
+    }
+    return typeof value === 'string' && /^\s*(\[\[[^\]]+\]\]\s*,?\s*)+$/.test(value);
+  }
+}
@@ -0,0 +1,63 @@
+import { OperationCancelledError } from './cancellation';
+
+/**
+ * Runs async tasks with at most `concurrency` of them in flight, starting queued tasks in the order they were added
+ * A task whose `isCancelled` check is true by the time its turn comes is rejected instead of started
+ */
+export class RequestPool {
+  private concurrency: number;
+  private active = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(concurrency: number) {
+    this.concurrency = RequestPool.normalizeConcurrency(concurrency);
+  }
+
+  static normalizeConcurrency(concurrency: number): number {
+    return Math.max(1, Math.floor(concurrency) || 1);
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = RequestPool.normalizeConcurrency(concurrency);
+    this.startQueued();
+  }
+
+  run<T>(task: () => Promise<T>, isCancelled?: () => boolean): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push(() => {
+        const work = isCancelled && isCancelled()
+          ? Promise.reject(new OperationCancelledError())
+          : Promise.resolve().then(task);
+        const done = () => {
+          this.active--;
+          this.startQueued();
+        };
+        work.then(result => {
+          done();
+          resolve(result);
+        }, error => {
+          done();
+          reject(error);
+        });
+      });
+      this.startQueued();
+    });
+  }
+
+  /**
+   * Queue a task per item; the returned promises are in item order, whatever order the tasks finish in
+   */
+  runAll<T, R>(items: T[], task: (item: T) => Promise<R>, isCancelled?: () => boolean): Promise<R>[] {
+    return items.map(item => this.run(() => task(item), isCancelled));
+  }
+
+  private startQueued(): void {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const start = this.queue.shift();
+      if (start) {
+        this.active++;
+        start();
+      }
+    }
+  }
+}
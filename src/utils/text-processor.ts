@@ -55,6 +55,24 @@ export class TextProcessor {
     return null;
   }
 
+  /**
+   * Fast non-cryptographic content hash (cyrb53) used for change detection
+   * Only line endings are normalized before hashing; any other whitespace edit is a change
+   */
+  static hashContent(content: string): string {
+    const normalized = (content || '').replace(/\r\n?/g, '\n');
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < normalized.length; i++) {
+      const ch = normalized.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+  }
+
   /**
    * Filename sanitization - removes invalid filesystem characters
    */
@@ -92,8 +110,17 @@ export class TextProcessor {
 
   /**
    * Convert Anytype object links to Obsidian wikilinks
+   * Links to objects found in `linkTargets` (objectId → note path) point at that exact note, the others use the link text
+   * Link text of the form `Note > Heading` (how heading and block links are pushed) becomes `[[Note#Heading]]` again
+   * Gateway files and images found in `attachmentPaths` (file id → vault path) become links and embeds of the vault copy
+   * With `objectNames` (objectId → current name, null when unknown), other links target the object name and keep custom link text
    */
-  static convertAnyTypeLinksToWikilinks(markdown: string): string {
+  static convertAnyTypeLinksToWikilinks(
+    markdown: string,
+    linkTargets?: Map<string, string>,
+    attachmentPaths?: Map<string, string>,
+    objectNames?: (objectId: string) => string | null
+  ): string {
     if (!markdown || typeof markdown !== 'string') {
       return markdown || '';
     }
@@ -103,24 +130,74 @@ export class TextProcessor {
       // Pattern: [Link Text](anytype://object?objectId=bafyreic...)
       const anyTypeLinkPattern = /\[([^\]]+)\]\(anytype:\/\/object\?objectId=([^)]+)\)/g;
       
-      const convertedMarkdown = markdown.replace(anyTypeLinkPattern, (_, linkText) => {
+      const convertedMarkdown = markdown.replace(anyTypeLinkPattern, (_, linkText, objectParams) => {
         // Extract clean link text and convert to wikilink format
         const cleanLinkText = linkText.trim();
-        return `[[${cleanLinkText}]]`;
+        const anchorAt = cleanLinkText.indexOf(' > ');
+        const anchor = anchorAt > 0 ? cleanLinkText.substring(anchorAt + 3).split(' > ').join('#') : '';
+        const objectId = objectParams.split('&')[0].trim();
+        const targetPath = linkTargets?.get(objectId);
+        if (targetPath) {
+          return this.buildPathWikilink(targetPath, cleanLinkText, anchor);
+        }
+        const linkedName = anchor ? cleanLinkText.substring(0, anchorAt) : cleanLinkText;
+        const objectName = objectNames ? objectNames(objectId) : null;
+        if (anchor) {
+          return `[[${objectName || linkedName}#${anchor}]]`;
+        }
+        return objectName && objectName !== linkedName ? `[[${objectName}|${linkedName.replace(/[|\]]/g, '')}]]` : `[[${linkedName}]]`;
       });
 
-      return convertedMarkdown;
+      if (!attachmentPaths || attachmentPaths.size === 0) {
+        return convertedMarkdown;
+      }
+      return convertedMarkdown.replace(this.gatewayFilePattern(), (match, embed, linkText, _url, fileId) => {
+        const path = attachmentPaths.get(fileId);
+        if (!path) {
+          return match;
+        }
+        const display = linkText.replace(/[|\]]/g, '').trim();
+        return embed ? `![[${path}]]` : (display ? `[[${path}|${display}]]` : `[[${path}]]`);
+      });
     } catch {
       // Return original on error
       return markdown;
     }
   }
 
+  /**
+   * Files and images served by the local Anytype gateway, e.g. `![](http://127.0.0.1:47800/image/bafy...)`
+   */
+  static extractGatewayFiles(markdown: string): { fileId: string; url: string; embed: boolean }[] {
+    const files: { fileId: string; url: string; embed: boolean }[] = [];
+    const pattern = this.gatewayFilePattern();
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(markdown || '')) !== null) {
+      files.push({ fileId: match[4], url: match[3], embed: match[1] === '!' });
+    }
+    return files;
+  }
+
+  // Groups: embed marker, link text, gateway URL, file id
+  private static gatewayFilePattern(): RegExp {
+    return /(!?)\[([^\]]*)\]\((https?:\/\/(?:127\.0\.0\.1|localhost)(?::\d+)?\/(?:image|file)\/([A-Za-z0-9]+)[^)\s]*)\)/g;
+  }
+
+  /**
+   * Wikilink to an exact note path, e.g. `[[Folder/Name 1|Name]]`, optionally to a heading or block (`anchor`) in it
+   */
+  static buildPathWikilink(path: string, displayText: string, anchor = ''): string {
+    const linkPath = path.replace(/\.md$/, '') + (anchor ? `#${anchor}` : '');
+    const display = displayText.replace(/[|\]]/g, '').trim();
+    return display ? `[[${linkPath}|${display}]]` : `[[${linkPath}]]`;
+  }
+
   /**
    * Convert Obsidian wikilinks to Anytype object URLs
    * Uses WikilinkResolver to find corresponding Anytype objects
    */
-  static convertWikilinksToAnyTypeUrls(markdown: string, wikilinkResolver: any, currentSpaceId: string): string {
+  static convertWikilinksToAnyTypeUrls(markdown: string, wikilinkResolver: any, currentSpaceId: string, sourcePath: string = ''): string {
     if (!markdown || typeof markdown !== 'string') {
       return markdown || '';
     }
@@ -130,48 +207,10 @@ export class TextProcessor {
     }
 
     try {
-      return wikilinkResolver.convertWikilinksToAnyTypeUrls(markdown, currentSpaceId);
+      return wikilinkResolver.convertWikilinksToAnyTypeUrls(markdown, currentSpaceId, sourcePath);
     } catch {
       // Return original markdown on error to prevent data loss
       return markdown;
     }
   }
-
-  /**
-   * Format YAML line with proper escaping and quoting
-   */
-  static formatYamlLine(key: string, value: any): string {
-    // Handle arrays (like wikilinks from object properties) with proper YAML formatting
-    if (Array.isArray(value)) {
-      let yamlArray = `${key}:\n`;
-      for (const item of value) {
-        const itemString = String(item);
-        // Quote array items if they contain special characters or are wikilinks
-        if (itemString.includes(':') || itemString.includes('\n') || 
-            itemString.includes('"') || itemString.includes("'") ||
-            itemString.startsWith(' ') || itemString.endsWith(' ') ||
-            itemString.startsWith('[[') || itemString.endsWith(']]')) {
-          const escapedItem = itemString.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-          yamlArray += `- "${escapedItem}"\n`;
-        } else {
-          yamlArray += `- ${itemString}\n`;
-        }
-      }
-      return yamlArray;
-    }
-    
-    const stringValue = String(value);
-    
-    // Escape special YAML characters and quote if necessary
-    if (typeof value === 'string' && 
-        (stringValue.includes(':') || stringValue.includes('\n') || 
-         stringValue.includes('"') || stringValue.includes("'") ||
-         stringValue.startsWith(' ') || stringValue.endsWith(' '))) {
-      
-      const escapedValue = stringValue.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-      return `${key}: "${escapedValue}"\n`;
-    } else {
-      return `${key}: ${stringValue}\n`;
-    }
-  }
-}
\ No newline at end of file
+}
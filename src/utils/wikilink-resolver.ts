@@ -1,16 +1,27 @@
-import { App } from 'obsidian';
+import { App, TFile } from 'obsidian';
+import { LinkIssue } from '../types';
 import { Logger } from './logger';
 
 /**
  * Utility class for resolving wikilinks to Anytype object IDs
- * Searches through vault notes to find corresponding Anytype objects
+ * Links resolve the way Obsidian resolves them (paths, shortest unique names, heading/block suffixes), then by exact alias;
+ * anything that does not resolve to exactly one linked note is reported instead of guessed
+ *
+ * Anytype links point at whole objects, so for the link forms Obsidian adds on top:
+ * - `[[Note#Heading]]` / `[[Note#^block]]` link to the Note object, the anchor is kept in the link text (`Note > Heading`)
+ * - `![[Note]]` note embeds become plain links to the object; attachment embeds (`![[image.png]]`) stay as written
+ * - same-note links (`[[#Heading]]`) stay as written, there is no other object to point at
  */
 export class WikilinkResolver {
   private app: App;
   private logger: Logger;
-  private noteCache: Map<string, { objectId: string; spaceId: string }> = new Map();
+  // Lower-cased alias -> notes carrying it
+  private aliasCache: Map<string, TFile[]> = new Map();
   private cacheExpiry: number = 0;
   private readonly CACHE_DURATION = 30000; // 30 seconds
+  private issues: LinkIssue[] = [];
+  // Objects created for notes whose new frontmatter the metadata cache may not have picked up yet
+  private recentObjects: Map<string, { objectId: string; spaceId: string; registeredAt: number }> = new Map();
 
   constructor(app: App, logger: Logger) {
     this.app = app;
@@ -19,37 +30,36 @@ export class WikilinkResolver {
 
   /**
    * Convert Obsidian wikilinks to Anytype object URLs in markdown content
+   * `sourcePath` is the note the links are written in, relative links resolve from there
    */
-  convertWikilinksToAnyTypeUrls(markdown: string, currentSpaceId: string): string {
+  convertWikilinksToAnyTypeUrls(markdown: string, currentSpaceId: string, sourcePath: string = ''): string {
     if (!markdown || typeof markdown !== 'string') {
       return markdown || '';
     }
 
     try {
-      // Refresh cache if expired
-      this.refreshCacheIfNeeded();
-
-      // Pattern to match Obsidian wikilinks: [[Link Text]] or [[Link Text|Display Text]]
-      const wikilinkPattern = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
-      
-      const convertedMarkdown = markdown.replace(wikilinkPattern, (match, linkTarget, displayText) => {
-        // Use display text if provided, otherwise use link target
-        const displayName = displayText || linkTarget;
+      // Pattern to match Obsidian wikilinks and embeds: [[Link Text]], [[Link Text|Display Text]], ![[Link Text]]
+      const wikilinkPattern = /(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+      const convertedMarkdown = markdown.replace(wikilinkPattern, (match, embed, linkTarget, displayText) => {
         const cleanTarget = linkTarget.trim();
-        
-        // Try to find the Anytype object for this wikilink
-        const objectInfo = this.findObjectByName(cleanTarget);
-        
-        if (objectInfo && objectInfo.spaceId === currentSpaceId) {
-          // Convert to Anytype URL format
-          const anyTypeUrl = `anytype://object?objectId=${objectInfo.objectId}&spaceId=${objectInfo.spaceId}`;
-          this.logger.debug(`Converted wikilink [[${cleanTarget}]] to Anytype URL`);
-          return `[${displayName}](${anyTypeUrl})`;
-        } else {
-          // Object not found or belongs to different space - keep as wikilink
-          this.logger.debug(`No Anytype object found for wikilink [[${cleanTarget}]], keeping as wikilink`);
-          return match; // Keep original wikilink
+        const { linkpath, anchor } = this.splitLinkTarget(cleanTarget);
+        if (!linkpath || (embed && this.isAttachment(cleanTarget, sourcePath))) {
+          return match;
+        }
+
+        // Use display text if provided, otherwise the link target as Obsidian shows it
+        const displayName = displayText || (anchor ? `${linkpath} > ${anchor.split('#').join(' > ')}` : linkTarget);
+        const objectId = this.resolveObjectId(cleanTarget, currentSpaceId, sourcePath);
+        if (!objectId) {
+          // Not a note linked to an object of this space - keep as wikilink
+          return match;
         }
+
+        // Convert to Anytype URL format
+        const anyTypeUrl = `anytype://object?objectId=${objectId}&spaceId=${currentSpaceId}`;
+        this.logger.debug(`Converted wikilink [[${cleanTarget}]] to Anytype URL`);
+        return `[${displayName}](${anyTypeUrl})`;
       });
 
       return convertedMarkdown;
@@ -60,89 +70,157 @@ export class WikilinkResolver {
   }
 
   /**
-   * Find Anytype object info by note name
+   * The note a wikilink target points at, resolved like Obsidian does; aliases only count when exactly one note has them
    */
-  private findObjectByName(noteName: string): { objectId: string; spaceId: string } | null {
-    // First try exact match
-    if (this.noteCache.has(noteName)) {
-      return this.noteCache.get(noteName)!;
+  resolveLink(linkTarget: string, sourcePath: string = ''): { file: TFile | null; reason?: 'unresolved' | 'ambiguous' } {
+    const { linkpath } = this.splitLinkTarget(linkTarget);
+    if (!linkpath) {
+      // Same-note heading or block links, e.g. [[#Heading]]
+      const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+      return sourceFile instanceof TFile ? { file: sourceFile } : { file: null, reason: 'unresolved' };
     }
 
-    // Try case-insensitive match
-    for (const [cachedName, objectInfo] of this.noteCache.entries()) {
-      if (cachedName.toLowerCase() === noteName.toLowerCase()) {
-        this.logger.debug(`Found case-insensitive match for "${noteName}" -> "${cachedName}"`);
-        return objectInfo;
-      }
+    const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    if (file) {
+      return { file };
+    }
+
+    this.refreshCacheIfNeeded();
+    const aliased = this.aliasCache.get(linkpath.toLowerCase()) || [];
+    if (aliased.length === 1) {
+      this.logger.debug(`Resolved wikilink [[${linkTarget}]] by alias to ${aliased[0].path}`);
+      return { file: aliased[0] };
+    }
+    return { file: null, reason: aliased.length > 1 ? 'ambiguous' : 'unresolved' };
+  }
+
+  /**
+   * Anytype object id of the note a wikilink target points at, if that note is linked to an object of the space
+   * Targets without such an object are recorded as issues
+   */
+  resolveObjectId(linkTarget: string, currentSpaceId: string, sourcePath: string = ''): string | null {
+    const resolution = this.resolveLink(linkTarget, sourcePath);
+    if (!resolution.file) {
+      this.recordIssue(linkTarget, sourcePath, resolution.reason || 'unresolved');
+      return null;
     }
 
-    // Try partial match (if note name contains the wikilink target)
-    for (const [cachedName, objectInfo] of this.noteCache.entries()) {
-      if (cachedName.includes(noteName) || noteName.includes(cachedName)) {
-        this.logger.debug(`Found partial match for "${noteName}" -> "${cachedName}"`);
-        return objectInfo;
+    const objectInfo = this.getObjectInfo(resolution.file);
+    if (!objectInfo || objectInfo.spaceId !== currentSpaceId) {
+      this.recordIssue(linkTarget, sourcePath, 'unlinked');
+      return null;
+    }
+    return objectInfo.objectId;
+  }
+
+  /**
+   * Linked markdown notes the wikilinks of `markdown` point at that have no Anytype object yet
+   */
+  getUnlinkedTargets(markdown: string, sourcePath: string = ''): TFile[] {
+    const targets: TFile[] = [];
+    const wikilinkPattern = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = wikilinkPattern.exec(markdown || '')) !== null) {
+      const { file } = this.resolveLink(match[1].trim(), sourcePath);
+      if (file && file.extension === 'md' && file.path !== sourcePath && !targets.includes(file) && !this.getObjectInfo(file)) {
+        targets.push(file);
       }
     }
+    return targets;
+  }
 
-    return null;
+  /**
+   * Remember the object just created for a note, so links to it convert before the metadata cache catches up
+   */
+  registerObject(path: string, objectId: string, spaceId: string): void {
+    this.recentObjects.set(path, { objectId, spaceId, registeredAt: Date.now() });
   }
 
   /**
-   * Refresh the note cache if it's expired or empty
+   * Links kept as wikilinks since the last call; clears the list
+   */
+  drainIssues(): LinkIssue[] {
+    const issues = this.issues;
+    this.issues = [];
+    return issues;
+  }
+
+  /**
+   * Split a link target into the note part and the heading/block anchor: `Note#Heading`, `Note#^block` and `Note^block`
+   * The anchor keeps the `^` of block ids; nested headings stay joined by `#`
+   */
+  private splitLinkTarget(linkTarget: string): { linkpath: string; anchor: string } {
+    const anchorAt = linkTarget.search(/[#^]/);
+    if (anchorAt === -1) {
+      return { linkpath: linkTarget.trim(), anchor: '' };
+    }
+    const anchor = linkTarget.substring(anchorAt).replace(/^#/, '').trim();
+    return { linkpath: linkTarget.substring(0, anchorAt).trim(), anchor };
+  }
+
+  /**
+   * Whether an embed points at a file other than a note; names with a non-markdown extension count even when missing
+   */
+  private isAttachment(linkTarget: string, sourcePath: string): boolean {
+    const { file } = this.resolveLink(linkTarget, sourcePath);
+    if (file) {
+      return file.extension !== 'md';
+    }
+    return /\.(?!md$)[a-z0-9]+$/i.test(this.splitLinkTarget(linkTarget).linkpath);
+  }
+
+  private recordIssue(link: string, sourcePath: string, reason: LinkIssue['reason']): void {
+    this.logger.debug(`Keeping wikilink [[${link}]] in ${sourcePath || 'note'}: ${reason}`);
+    if (!this.issues.some(issue => issue.link === link && issue.sourcePath === sourcePath)) {
+      this.issues.push({ link, sourcePath, reason });
+    }
+  }
+
+  private getObjectInfo(file: TFile): { objectId: string; spaceId: string } | null {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const objectId = frontmatter.id;
+    const spaceId = frontmatter.space_id;
+
+    // Only notes that have both Anytype ID and space ID are linked
+    if (typeof objectId !== 'string' || typeof spaceId !== 'string' || !objectId.trim() || !spaceId.trim()) {
+      const recent = this.recentObjects.get(file.path);
+      return recent && Date.now() - recent.registeredAt < this.CACHE_DURATION ? { objectId: recent.objectId, spaceId: recent.spaceId } : null;
+    }
+    return { objectId: objectId.trim(), spaceId: spaceId.trim() };
+  }
+
+  /**
+   * Refresh the alias cache if it's expired
    */
   private refreshCacheIfNeeded(): void {
     const now = Date.now();
-    
-    if (this.noteCache.size === 0 || now > this.cacheExpiry) {
-      this.buildNoteCache();
+
+    if (now > this.cacheExpiry) {
+      this.buildAliasCache();
       this.cacheExpiry = now + this.CACHE_DURATION;
-      this.logger.debug(`Refreshed wikilink cache with ${this.noteCache.size} notes`);
+      this.logger.debug(`Refreshed wikilink alias cache with ${this.aliasCache.size} aliases`);
     }
   }
 
   /**
-   * Build cache of note names to Anytype object IDs
+   * Build cache of note aliases (frontmatter `aliases`) to notes
    */
-  private buildNoteCache(): void {
-    this.noteCache.clear();
-    
-    const allFiles = this.app.vault.getMarkdownFiles();
-    
-    for (const file of allFiles) {
-      try {
-        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-        const objectId = frontmatter.id;
-        const spaceId = frontmatter.space_id;
-        
-        // Only cache notes that have both Anytype ID and space ID
-        if (objectId && spaceId && 
-            typeof objectId === 'string' && 
-            typeof spaceId === 'string' &&
-            objectId.trim().length > 0 && 
-            spaceId.trim().length > 0) {
-          
-          // Cache by filename without extension
-          const noteName = file.basename;
-          this.noteCache.set(noteName, {
-            objectId: objectId.trim(),
-            spaceId: spaceId.trim()
-          });
-          
-          // Also cache by 'name' property if it exists and differs from filename
-          const nameProperty = frontmatter.name;
-          if (nameProperty && 
-              typeof nameProperty === 'string' && 
-              nameProperty.trim() !== noteName) {
-            this.noteCache.set(nameProperty.trim(), {
-              objectId: objectId.trim(),
-              spaceId: spaceId.trim()
-            });
-          }
-          
-          this.logger.debug(`Cached note "${noteName}" -> ${objectId}`);
+  private buildAliasCache(): void {
+    this.aliasCache.clear();
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const aliases = this.app.metadataCache.getFileCache(file)?.frontmatter?.aliases;
+      const aliasList = Array.isArray(aliases) ? aliases : (typeof aliases === 'string' ? [aliases] : []);
+
+      for (const alias of aliasList) {
+        if (typeof alias !== 'string' || !alias.trim()) continue;
+        const key = alias.trim().toLowerCase();
+        const files = this.aliasCache.get(key) || [];
+        if (!files.includes(file)) {
+          files.push(file);
         }
-      } catch (error) {
-        this.logger.warn(`Failed to process file ${file.basename} for wikilink cache: ${error.message}`);
+        this.aliasCache.set(key, files);
       }
     }
   }
@@ -151,7 +229,8 @@ export class WikilinkResolver {
    * Clear the cache (useful for testing or forcing refresh)
    */
   clearCache(): void {
-    this.noteCache.clear();
+    this.aliasCache.clear();
+    this.recentObjects.clear();
     this.cacheExpiry = 0;
     this.logger.debug('Cleared wikilink resolver cache');
   }
@@ -161,8 +240,8 @@ export class WikilinkResolver {
    */
   getCacheStats(): { size: number; expiry: Date | null } {
     return {
-      size: this.noteCache.size,
+      size: this.aliasCache.size,
       expiry: this.cacheExpiry > 0 ? new Date(this.cacheExpiry) : null
     };
   }
-}
\ No newline at end of file
+}
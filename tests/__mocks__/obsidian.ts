@@ -0,0 +1,33 @@
+import { dump, load } from 'js-yaml';
+
+/**
+ * Runtime stand-ins for the parts of the Obsidian API the tested utilities touch
+ */
+export class TFile {
+  path: string;
+  basename: string;
+  extension: string;
+
+  constructor(path: string) {
+    this.path = path;
+    const name = path.split('/').pop() || path;
+    const dot = name.lastIndexOf('.');
+    this.basename = dot > 0 ? name.substring(0, dot) : name;
+    this.extension = dot > 0 ? name.substring(dot + 1) : '';
+  }
+}
+
+export class App {}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+// Obsidian's own YAML functions are built on js-yaml
+export function parseYaml(yaml: string): any {
+  return load(yaml);
+}
+
+export function stringifyYaml(value: unknown): string {
+  return dump(value);
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import { Logger } from '../src/utils/logger';
+import { AnyTypeApiError, ApiRequestClient } from '../src/services/api-request';
+import { OperationCancelledError } from '../src/utils/cancellation';
+
+vi.mock('obsidian', async importOriginal => ({ ...await importOriginal<object>(), requestUrl: vi.fn() }));
+
+const mockedRequestUrl = vi.mocked(requestUrl);
+const POLICY = { retries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+const URL = 'http://localhost:31009/v1/spaces';
+
+function response(status: number, headers: Record<string, string> = {}, text = ''): RequestUrlResponse {
+  return { status, headers, text, json: null } as unknown as RequestUrlResponse;
+}
+
+/**
+ * Answers requests with `responses` in turn; an Error entry makes the request itself fail
+ */
+function respondWith(...responses: (RequestUrlResponse | Error)[]): void {
+  for (const next of responses) {
+    mockedRequestUrl.mockImplementationOnce((() => next instanceof Error ? Promise.reject(next) : Promise.resolve(next)) as unknown as typeof requestUrl);
+  }
+}
+
+describe('ApiRequestClient.send', () => {
+  let client: ApiRequestClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    client = new ApiRequestClient(new Logger('info'), POLICY);
+  });
+
+  afterEach(() => {
+    mockedRequestUrl.mockReset();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('returns successful responses and sends requests without throwing on error statuses', async () => {
+    respondWith(response(200));
+    expect((await client.send({ url: URL }, { operation: 'List spaces' })).status).toBe(200);
+    expect(mockedRequestUrl).toHaveBeenCalledWith({ url: URL, throw: false });
+  });
+
+  it('retries server errors with backoff until a request succeeds', async () => {
+    respondWith(response(500), response(503), response(200));
+    const sent = client.send({ url: URL }, { operation: 'List spaces' });
+
+    await vi.advanceTimersByTimeAsync(POLICY.baseDelayMs);
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(POLICY.baseDelayMs * 2);
+    expect((await sent).status).toBe(200);
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured retries with a typed error', async () => {
+    respondWith(response(500), response(500), response(500), response(500));
+    const sent = expect(client.send({ url: URL }, { operation: 'List spaces' })).rejects.toMatchObject({ kind: 'server', status: 500 });
+
+    await vi.advanceTimersByTimeAsync(POLICY.maxDelayMs * 3);
+    await sent;
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(POLICY.retries + 1);
+  });
+
+  it('waits as long as Retry-After asks when rate limited, capped at the maximum delay', async () => {
+    respondWith(response(429, { 'retry-after': '0.5' }), response(200));
+    const sent = client.send({ url: URL }, { operation: 'List spaces' });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await sent).status).toBe(200);
+
+    respondWith(response(429, { 'Retry-After': '60' }), response(200));
+    const capped = client.send({ url: URL }, { operation: 'List spaces' });
+    await vi.advanceTimersByTimeAsync(POLICY.maxDelayMs);
+    expect((await capped).status).toBe(200);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    respondWith(response(401, {}, '{"message":"invalid key"}'));
+    const error = await client.send({ url: URL }, { operation: 'List spaces' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AnyTypeApiError);
+    expect(error).toMatchObject({ kind: 'unauthorized', detail: 'invalid key', fatal: true, retryable: false });
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands back accepted error statuses instead of throwing', async () => {
+    respondWith(response(404));
+    expect((await client.send({ url: URL }, { operation: 'Check object', acceptStatuses: [404] })).status).toBe(404);
+  });
+
+  it('does not resend a POST after a server error, since Anytype may have created the object', async () => {
+    respondWith(response(500), response(200));
+    await expect(client.send({ url: URL, method: 'POST' }, { operation: 'Create object' })).rejects.toMatchObject({ kind: 'server' });
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('resends a POST that never reached Anytype or was rate limited', async () => {
+    respondWith(new Error('net::ERR_CONNECTION_REFUSED'), response(429), response(200));
+    const sent = client.send({ url: URL, method: 'POST' }, { operation: 'Create object' });
+
+    await vi.advanceTimersByTimeAsync(POLICY.maxDelayMs * 2);
+    expect((await sent).status).toBe(200);
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(3);
+  });
+
+  it('resends a POST marked idempotent, like a search', async () => {
+    respondWith(response(502), response(200));
+    const sent = client.send({ url: URL, method: 'POST' }, { operation: 'Search objects', idempotent: true });
+
+    await vi.advanceTimersByTimeAsync(POLICY.baseDelayMs);
+    expect((await sent).status).toBe(200);
+  });
+
+  it('stops retrying once the signal aborts', async () => {
+    const controller = new AbortController();
+    respondWith(response(500), response(200));
+    const sent = expect(client.send({ url: URL }, { operation: 'List spaces', signal: controller.signal })).rejects.toBeInstanceOf(OperationCancelledError);
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await sent;
+    expect(mockedRequestUrl).toHaveBeenCalledTimes(1);
+  });
+});
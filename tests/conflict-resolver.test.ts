@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictResolver } from '../src/utils/conflict-resolver';
+import { TextProcessor } from '../src/utils/text-processor';
+
+const hash = (body: string) => TextProcessor.hashContent(body);
+
+describe('ConflictResolver.mergeProperties', () => {
+  it('takes the Anytype value when only Anytype changed', () => {
+    const result = ConflictResolver.mergeProperties({ status: 'Todo' }, { status: 'Todo' }, { status: 'Done' });
+    expect(result.merged).toEqual({ status: 'Done' });
+    expect(result.remoteChanges).toEqual(['status']);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('keeps the Obsidian value when only Obsidian changed', () => {
+    const result = ConflictResolver.mergeProperties({ status: 'Todo' }, { status: 'Doing' }, { status: 'Todo' });
+    expect(result.merged).toEqual({ status: 'Doing' });
+    expect(result.localChanges).toEqual(['status']);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('reports a conflict and keeps the Obsidian value when both sides changed differently', () => {
+    const result = ConflictResolver.mergeProperties({ status: 'Todo' }, { status: 'Doing' }, { status: 'Done' });
+    expect(result.merged).toEqual({ status: 'Doing' });
+    expect(result.conflicts).toEqual([{ key: 'status', base: 'Todo', local: 'Doing', remote: 'Done' }]);
+  });
+
+  it('does not report a conflict when both sides made the same change', () => {
+    const result = ConflictResolver.mergeProperties({ tags: ['a'] }, { tags: ['a', 'b'] }, { tags: ['a', 'b'] });
+    expect(result.merged).toEqual({ tags: ['a', 'b'] });
+    expect(result.conflicts).toEqual([]);
+    expect(result.localChanges).toEqual([]);
+    expect(result.remoteChanges).toEqual([]);
+  });
+
+  it('drops a property cleared in Anytype', () => {
+    const result = ConflictResolver.mergeProperties({ due: '2024-01-01' }, { due: '2024-01-01' }, {});
+    expect(result.merged).toEqual({});
+    expect(result.remoteChanges).toEqual(['due']);
+  });
+
+  it('treats empty strings, empty lists and missing values as the same value', () => {
+    const result = ConflictResolver.mergeProperties({ note: '' }, { note: null }, { note: [] });
+    expect(result.localChanges).toEqual([]);
+    expect(result.remoteChanges).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('never merges identity fields', () => {
+    const result = ConflictResolver.mergeProperties({ id: 'a', name: 'Old' }, { id: 'a', name: 'Local' }, { id: 'b', name: 'Remote' });
+    expect(result.merged).toEqual({});
+    expect(result.conflicts).toEqual([]);
+  });
+});
+
+describe('ConflictResolver.mergeBody', () => {
+  it('takes the Anytype body when only Anytype changed', () => {
+    expect(ConflictResolver.mergeBody('base', 'remote', hash('base'), hash('base'))).toBe('remote');
+  });
+
+  it('keeps the Obsidian body when only Obsidian changed', () => {
+    expect(ConflictResolver.mergeBody('local', 'base', hash('base'), hash('base'))).toBe('local');
+  });
+
+  it('reports a conflict when both bodies changed differently', () => {
+    expect(ConflictResolver.mergeBody('local', 'remote', hash('base'), hash('base'))).toBe('conflict');
+  });
+
+  it('sees no conflict when both sides hold the same body', () => {
+    expect(ConflictResolver.mergeBody('same', 'same', hash('base'), hash('base'))).toBe('remote');
+  });
+
+  it('counts a side without a recorded hash as unchanged', () => {
+    expect(ConflictResolver.mergeBody('local', 'remote', '', hash('base'))).toBe('remote');
+    expect(ConflictResolver.mergeBody('local', 'remote', hash('base'), '')).toBe('local');
+  });
+});
+
+describe('ConflictResolver.buildConflictNote', () => {
+  it('lists conflicting properties side by side and carries the Anytype body', () => {
+    const content = ConflictResolver.buildConflictNote('Note', [
+      { key: 'status', base: 'Todo', local: 'Doing', remote: 'Done' },
+      { key: 'tags', base: null, local: ['a', 'b|c'], remote: null }
+    ], 'Remote body');
+
+    expect(content).toContain('# Sync conflict: Note');
+    expect(content).toContain('[[Note]]');
+    expect(content).toContain('| status | Doing | Done |');
+    expect(content).toContain('| tags | a, b\\|c | *(empty)* |');
+    expect(content).toContain('## Anytype body\n\nRemote body\n');
+  });
+
+  it('has no frontmatter, so the conflict file is never taken for a linked note', () => {
+    const content = ConflictResolver.buildConflictNote('Note', [], null);
+    expect(content.startsWith('---')).toBe(false);
+    expect(content).not.toContain('## Properties');
+    expect(content).not.toContain('## Anytype body');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { FrontmatterProcessor } from '../src/utils/frontmatter-processor';
+
+describe('FrontmatterProcessor.split', () => {
+  it('separates the frontmatter from the body, dropping one blank separator line', () => {
+    expect(FrontmatterProcessor.split('---\ntitle: Note\n---\n\nBody\n')).toEqual({ frontmatter: 'title: Note', body: 'Body\n' });
+  });
+
+  it('treats a note without a closing fence as all body', () => {
+    expect(FrontmatterProcessor.split('---\ntitle: Note\nBody')).toEqual({ frontmatter: null, body: '---\ntitle: Note\nBody' });
+  });
+});
+
+describe('FrontmatterProcessor.update', () => {
+  const frontmatter = [
+    '# Synced with Anytype',
+    'title: "Note: with a colon"',
+    'tags:',
+    '  - one',
+    '  - two',
+    '',
+    '# Project fields',
+    'status: Todo # set by hand',
+    'summary: |',
+    '  First line',
+    '  # not a comment',
+    'id: obj1'
+  ].join('\n');
+
+  it('returns the frontmatter unchanged when no value changes', () => {
+    expect(FrontmatterProcessor.update(frontmatter, { tags: ['one', 'two'], status: 'Todo', id: 'obj1' })).toBe(frontmatter);
+  });
+
+  it('rewrites only the changed key, keeping order, comments and the other keys as written', () => {
+    const updated = FrontmatterProcessor.update(frontmatter, { status: 'Done' });
+    expect(updated).toBe(frontmatter.replace('status: Todo # set by hand', 'status: Done'));
+    expect(FrontmatterProcessor.parse(updated).status).toBe('Done');
+  });
+
+  it('rewrites list values as YAML sequences', () => {
+    const updated = FrontmatterProcessor.update(frontmatter, { tags: ['one', 'three'] });
+    expect(updated).toContain('tags:\n  - one\n  - three\n\n# Project fields');
+  });
+
+  it('appends new keys at the end in the given order', () => {
+    const updated = FrontmatterProcessor.update(frontmatter, { priority: 1, owner: 'me' });
+    expect(updated).toBe(`${frontmatter}\npriority: 1\nowner: me`);
+  });
+
+  it('removes keys set to null or listed in removeKeys', () => {
+    const updated = FrontmatterProcessor.update(frontmatter, { status: null }, ['id']);
+    const parsed = FrontmatterProcessor.parse(updated);
+    expect(parsed).not.toHaveProperty('status');
+    expect(parsed).not.toHaveProperty('id');
+    expect(updated).toContain('# Project fields');
+  });
+
+  it('keeps a comment-like line inside a block scalar as part of the value', () => {
+    const parsed = FrontmatterProcessor.parse(FrontmatterProcessor.update(frontmatter, { status: 'Done' }));
+    expect(parsed.summary).toBe('First line\n# not a comment\n');
+  });
+
+  it('quotes values YAML would otherwise read as another type', () => {
+    const updated = FrontmatterProcessor.update('', { answer: 'yes', empty: 'null', tag: '#tag', dash: '- item', colon: 'a: b' });
+    expect(FrontmatterProcessor.parse(updated)).toEqual({ answer: 'yes', empty: 'null', tag: '#tag', dash: '- item', colon: 'a: b' });
+  });
+
+  it('round-trips through wrap and split', () => {
+    const content = `${FrontmatterProcessor.wrap(FrontmatterProcessor.update(frontmatter, { status: 'Done' }))}Body`;
+    const sections = FrontmatterProcessor.split(content);
+    expect(sections.body).toBe('Body');
+    expect(FrontmatterProcessor.parse(sections.frontmatter).title).toBe('Note: with a colon');
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App, requestUrl, RequestUrlParam } from 'obsidian';
+import { Logger } from '../src/utils/logger';
+import { ObjectNameCache } from '../src/services/object-name-cache';
+import { AnyTypeApiService } from '../src/services/api-service';
+import { AnyTypeSettings, DEFAULT_SETTINGS } from '../src/types';
+
+vi.mock('obsidian', async importOriginal => ({ ...await importOriginal<object>(), requestUrl: vi.fn() }));
+
+const SPACE = 'space1';
+const API_KEY = 'test-api-key-123';
+const CACHE_PATH = 'plugins/anytype/object-names.json';
+
+function createApp(files: Map<string, string>): App {
+  return {
+    vault: {
+      adapter: {
+        exists: async (path: string) => files.has(path),
+        read: async (path: string) => files.get(path) as string,
+        write: async (path: string, data: string) => {
+          files.set(path, data);
+        },
+        remove: async (path: string) => {
+          files.delete(path);
+        }
+      }
+    }
+  } as unknown as App;
+}
+
+function createCache(settings: Partial<AnyTypeSettings> = {}, files = new Map<string, string>()): ObjectNameCache {
+  return new ObjectNameCache(createApp(files), new Logger('error'), 'plugins/anytype', () => ({ ...DEFAULT_SETTINGS, ...settings }));
+}
+
+describe('ObjectNameCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns names until they are older than the TTL', () => {
+    const cache = createCache({ objectNameCacheTtl: 10 });
+    cache.set(SPACE, 'obj1', 'Project');
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect(cache.get(SPACE, 'obj1')).toBe('Project');
+    vi.advanceTimersByTime(1);
+    expect(cache.get(SPACE, 'obj1')).toBeNull();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, size: 0 });
+  });
+
+  it('keeps names for good with a TTL of 0', () => {
+    const cache = createCache({ objectNameCacheTtl: 0 });
+    cache.set(SPACE, 'obj1', 'Project');
+    vi.advanceTimersByTime(365 * 24 * 60 * 60 * 1000);
+    expect(cache.get(SPACE, 'obj1')).toBe('Project');
+  });
+
+  it('keys names by space', () => {
+    const cache = createCache();
+    cache.set(SPACE, 'obj1', 'Project');
+    expect(cache.get('space2', 'obj1')).toBeNull();
+  });
+
+  it('starts every run empty unless persisted', async () => {
+    const cache = createCache();
+    await cache.startRun();
+    cache.set(SPACE, 'obj1', 'Project');
+    await cache.startRun();
+    expect(cache.get(SPACE, 'obj1')).toBeNull();
+  });
+
+  it('persists names across runs and drops the expired ones on load', async () => {
+    const files = new Map<string, string>();
+    const settings = { persistObjectNameCache: true, objectNameCacheTtl: 10 };
+    const first = createCache(settings, files);
+    await first.startRun();
+    first.set(SPACE, 'old', 'Old');
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    first.set(SPACE, 'new', 'New');
+    await first.endRun('Test');
+    expect(files.has(CACHE_PATH)).toBe(true);
+
+    vi.advanceTimersByTime(6 * 60 * 1000);
+    const second = createCache(settings, files);
+    await second.startRun();
+    expect(second.get(SPACE, 'new')).toBe('New');
+    expect(second.get(SPACE, 'old')).toBeNull();
+  });
+
+  it('clear also removes the persisted names', async () => {
+    const files = new Map([[CACHE_PATH, '{}']]);
+    const cache = createCache({ persistObjectNameCache: true }, files);
+    cache.set(SPACE, 'obj1', 'Project');
+    await cache.clear();
+    expect(cache.get(SPACE, 'obj1')).toBeNull();
+    expect(files.has(CACHE_PATH)).toBe(false);
+  });
+});
+
+describe('AnyTypeApiService object name lookups', () => {
+  const mockedRequestUrl = vi.mocked(requestUrl);
+
+  /**
+   * Answers object fetches from `objects` and counts requests per object id
+   */
+  function serveObjects(objects: Record<string, Record<string, unknown>>): Map<string, number> {
+    const requests = new Map<string, number>();
+    mockedRequestUrl.mockImplementation(((params: RequestUrlParam) => {
+      const objectId = (params.url.match(/\/objects\/([^?]+)/) || [])[1];
+      requests.set(objectId, (requests.get(objectId) || 0) + 1);
+      const object = objects[objectId];
+      return Promise.resolve(object
+        ? { status: 200, json: { object }, text: '', headers: {} }
+        : { status: 404, json: null, text: 'not found', headers: {} });
+    }) as unknown as typeof requestUrl);
+    return requests;
+  }
+
+  const linking = (...objectIds: string[]) => ({
+    id: 'obj-main',
+    name: 'Main',
+    markdown: '',
+    properties: [
+      { key: 'related', format: 'objects', objects: objectIds },
+      { key: 'parent', format: 'objects', objects: objectIds }
+    ]
+  });
+
+  afterEach(() => {
+    mockedRequestUrl.mockReset();
+  });
+
+  it('fetches an object linked several times at once only once', async () => {
+    const requests = serveObjects({ 'obj-main': linking('obj-linked', 'obj-linked'), 'obj-linked': { id: 'obj-linked', name: 'Linked' } });
+    const service = new AnyTypeApiService(new Logger('error'), 4);
+
+    const object = await service.getObjectWithWikilinks(SPACE, API_KEY, 'obj-main');
+    expect(object.properties.related).toEqual(['[[Linked]]', '[[Linked]]']);
+    // Without a name cache, each property looks the name up again, but parallel lookups share one request
+    expect(requests.get('obj-linked')).toBe(2);
+  });
+
+  it('takes names from the cache instead of fetching them', async () => {
+    const requests = serveObjects({ 'obj-main': linking('obj-linked'), 'obj-linked': { id: 'obj-linked', name: 'Linked' } });
+    const cache = createCache();
+    const service = new AnyTypeApiService(new Logger('error'), 4, cache);
+
+    const object = await service.getObjectWithWikilinks(SPACE, API_KEY, 'obj-main');
+    expect(object.properties.parent).toEqual(['[[Linked]]']);
+    expect(requests.get('obj-linked')).toBe(1);
+    expect(cache.get(SPACE, 'obj-main')).toBe('Main');
+  });
+});
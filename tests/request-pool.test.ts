@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { RequestPool } from '../src/utils/request-pool';
+import { OperationCancelledError } from '../src/utils/cancellation';
+
+/**
+ * Task that stays in flight until released, recording how many tasks run at once
+ */
+function createTracker() {
+  const tracker = {
+    active: 0,
+    maxActive: 0,
+    started: [] as number[],
+    releases: new Map<number, () => void>(),
+    task: (id: number) => () => new Promise<number>(resolve => {
+      tracker.active++;
+      tracker.maxActive = Math.max(tracker.maxActive, tracker.active);
+      tracker.started.push(id);
+      tracker.releases.set(id, () => {
+        tracker.active--;
+        resolve(id);
+      });
+    }),
+    release: async (id: number) => {
+      (tracker.releases.get(id) as () => void)();
+      await flushPromises();
+    }
+  };
+  return tracker;
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestPool', () => {
+  it('runs at most `concurrency` tasks at once and starts queued tasks in order', async () => {
+    const pool = new RequestPool(2);
+    const tracker = createTracker();
+    const results = [1, 2, 3, 4].map(id => pool.run(tracker.task(id)));
+    await flushPromises();
+    expect(tracker.started).toEqual([1, 2]);
+
+    await tracker.release(2);
+    expect(tracker.started).toEqual([1, 2, 3]);
+    await tracker.release(1);
+    await tracker.release(3);
+    await tracker.release(4);
+
+    expect(await Promise.all(results)).toEqual([1, 2, 3, 4]);
+    expect(tracker.maxActive).toBe(2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const pool = new RequestPool(1);
+    const failed = pool.run(() => Promise.reject(new Error('boom')));
+    const next = pool.run(() => Promise.resolve('next'));
+
+    await expect(failed).rejects.toThrow('boom');
+    expect(await next).toBe('next');
+  });
+
+  it('runAll returns results in item order, whatever order the tasks finish in', async () => {
+    const pool = new RequestPool(3);
+    const delays = [30, 10, 20];
+    const results = pool.runAll(delays, delay => new Promise<number>(resolve => setTimeout(() => resolve(delay), delay)));
+    expect(await Promise.all(results)).toEqual([30, 10, 20]);
+  });
+
+  it('rejects queued tasks instead of starting them once cancelled', async () => {
+    const pool = new RequestPool(1);
+    const tracker = createTracker();
+    let cancelled = false;
+    const first = pool.run(tracker.task(1), () => cancelled);
+    const second = expect(pool.run(tracker.task(2), () => cancelled)).rejects.toBeInstanceOf(OperationCancelledError);
+    await flushPromises();
+
+    cancelled = true;
+    await tracker.release(1);
+    expect(await first).toBe(1);
+    await second;
+    expect(tracker.started).toEqual([1]);
+  });
+
+  it('starts waiting tasks when the concurrency is raised', async () => {
+    const pool = new RequestPool(1);
+    const tracker = createTracker();
+    [1, 2, 3].forEach(id => pool.run(tracker.task(id)));
+    await flushPromises();
+    expect(tracker.started).toEqual([1]);
+
+    pool.setConcurrency(3);
+    await flushPromises();
+    expect(tracker.started).toEqual([1, 2, 3]);
+  });
+
+  it('treats a concurrency below one as one', () => {
+    expect(RequestPool.normalizeConcurrency(0)).toBe(1);
+    expect(RequestPool.normalizeConcurrency(NaN)).toBe(1);
+    expect(RequestPool.normalizeConcurrency(4.7)).toBe(4);
+  });
+});
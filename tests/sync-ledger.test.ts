@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from 'obsidian';
+import { Logger } from '../src/utils/logger';
+import { SyncLedger } from '../src/services/sync-ledger';
+import { SyncLedgerData, SyncLedgerEntry } from '../src/types';
+
+const LEDGER_PATH = 'plugins/anytype/sync-ledger.json';
+
+/**
+ * App whose vault adapter keeps files in `files` and counts writes
+ */
+function createApp(files: Map<string, string>) {
+  const adapter = {
+    writes: 0,
+    exists: async (path: string) => files.has(path),
+    read: async (path: string) => files.get(path) as string,
+    write: async (path: string, data: string) => {
+      adapter.writes++;
+      files.set(path, data);
+    }
+  };
+  return { app: { vault: { adapter } } as unknown as App, adapter };
+}
+
+function entry(objectId: string, path: string): SyncLedgerEntry {
+  return {
+    objectId,
+    spaceId: 'space1',
+    path,
+    contentHash: 'hash',
+    noteHash: 'note-hash',
+    mtime: 1,
+    properties: { status: 'Done' },
+    remoteModifiedDate: null,
+    syncedAt: 1
+  };
+}
+
+function ledgerData(entries: SyncLedgerEntry[]): SyncLedgerData {
+  return { version: 1, entries: Object.fromEntries(entries.map(e => [e.objectId, e])), lastPullDates: { space1: '2024-01-01T00:00:00Z' } };
+}
+
+describe('SyncLedger.load', () => {
+  it('reads entries and pull dates from the ledger file', async () => {
+    const files = new Map([[LEDGER_PATH, JSON.stringify(ledgerData([entry('obj1', 'Note.md')]))]]);
+    const ledger = new SyncLedger(createApp(files).app, new Logger('error'), 'plugins/anytype');
+
+    expect(await ledger.load()).toBe(false);
+    expect(ledger.get('obj1')?.path).toBe('Note.md');
+    expect(ledger.getByPath('Note.md')?.objectId).toBe('obj1');
+    expect(ledger.getLastPullDate('space1')).toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('drops entries stored under another object id', async () => {
+    const data = ledgerData([entry('obj1', 'Note.md')]);
+    data.entries.other = entry('obj2', 'Other.md');
+    const files = new Map([[LEDGER_PATH, JSON.stringify(data)]]);
+    const ledger = new SyncLedger(createApp(files).app, new Logger('error'), 'plugins/anytype');
+
+    await ledger.load();
+    expect(ledger.size).toBe(1);
+  });
+
+  it('moves the legacy ledger from the plugin data into the ledger file', async () => {
+    const files = new Map<string, string>();
+    const { app, adapter } = createApp(files);
+    const ledger = new SyncLedger(app, new Logger('error'), 'plugins/anytype');
+
+    expect(await ledger.load(ledgerData([entry('obj1', 'Note.md')]))).toBe(true);
+    expect(ledger.get('obj1')?.path).toBe('Note.md');
+    expect(adapter.writes).toBe(1);
+    expect(JSON.parse(files.get(LEDGER_PATH) as string).entries.obj1.path).toBe('Note.md');
+  });
+
+  it('prefers an existing ledger file over the legacy ledger', async () => {
+    const files = new Map([[LEDGER_PATH, JSON.stringify(ledgerData([entry('obj1', 'Note.md')]))]]);
+    const { app, adapter } = createApp(files);
+    const ledger = new SyncLedger(app, new Logger('error'), 'plugins/anytype');
+
+    expect(await ledger.load(ledgerData([entry('obj2', 'Legacy.md')]))).toBe(false);
+    expect(ledger.get('obj2')).toBeNull();
+    expect(adapter.writes).toBe(0);
+  });
+
+  it('starts empty when the ledger file cannot be parsed', async () => {
+    const files = new Map([[LEDGER_PATH, '{ not json']]);
+    const ledger = new SyncLedger(createApp(files).app, new Logger('error'), 'plugins/anytype');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await ledger.load();
+    expect(ledger.size).toBe(0);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('SyncLedger.persist', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes once after a burst of changes', async () => {
+    const files = new Map<string, string>();
+    const { app, adapter } = createApp(files);
+    const ledger = new SyncLedger(app, new Logger('error'), 'plugins/anytype');
+
+    ledger.record(entry('obj1', 'One.md'));
+    ledger.persist();
+    await vi.advanceTimersByTimeAsync(500);
+    ledger.record(entry('obj2', 'Two.md'));
+    ledger.persist();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(adapter.writes).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(adapter.writes).toBe(1);
+    expect(Object.keys(JSON.parse(files.get(LEDGER_PATH) as string).entries)).toEqual(['obj1', 'obj2']);
+  });
+
+  it('flush writes a pending change right away and cancels the timer', async () => {
+    const files = new Map<string, string>();
+    const { app, adapter } = createApp(files);
+    const ledger = new SyncLedger(app, new Logger('error'), 'plugins/anytype');
+
+    ledger.record(entry('obj1', 'One.md'));
+    ledger.persist();
+    await ledger.flush();
+    expect(adapter.writes).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(adapter.writes).toBe(1);
+  });
+
+  it('flush without a pending change does not write', async () => {
+    const { app, adapter } = createApp(new Map());
+    const ledger = new SyncLedger(app, new Logger('error'), 'plugins/anytype');
+
+    await ledger.flush();
+    expect(adapter.writes).toBe(0);
+  });
+});
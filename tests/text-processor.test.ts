@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { TextProcessor } from '../src/utils/text-processor';
+
+const url = (objectId: string) => `anytype://object?objectId=${objectId}&spaceId=space1`;
+
+describe('TextProcessor.convertAnyTypeLinksToWikilinks', () => {
+  it('converts an object link to a wikilink by its text', () => {
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(`See [Note](${url('obj-note')}).`))
+      .toBe('See [[Note]].');
+  });
+
+  it('restores [[Note#Heading]] from a heading link', () => {
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(`[Note > Heading](${url('obj-note')})`))
+      .toBe('[[Note#Heading]]');
+  });
+
+  it('restores nested headings', () => {
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(`[Note > Heading > Sub](${url('obj-note')})`))
+      .toBe('[[Note#Heading#Sub]]');
+  });
+
+  it('restores [[Note#^block]] from a block link, also for links written as [[Note^block]]', () => {
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(`[Note > ^block](${url('obj-note')})`))
+      .toBe('[[Note#^block]]');
+  });
+
+  it('links to the note path and object name when they are known', () => {
+    const linkTargets = new Map([['obj-note', 'Folder/Note.md']]);
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(`[Note > Heading](${url('obj-note')})`, linkTargets))
+      .toBe('[[Folder/Note#Heading|Note > Heading]]');
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(`[the note](${url('obj-other')})`, undefined, undefined, () => 'Other'))
+      .toBe('[[Other|the note]]');
+  });
+
+  it('leaves same-note links like [[#Heading]] and note embeds untouched', () => {
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks('[[#Heading]] ![[Note]]')).toBe('[[#Heading]] ![[Note]]');
+  });
+
+  it('restores ![[image.png]] from a gateway image of a known attachment', () => {
+    const attachmentPaths = new Map([['bafyimage', 'assets/image.png']]);
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks('![](http://127.0.0.1:47800/image/bafyimage)', undefined, attachmentPaths))
+      .toBe('![[assets/image.png]]');
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks('![](http://127.0.0.1:47800/image/bafyother)', undefined, attachmentPaths))
+      .toBe('![](http://127.0.0.1:47800/image/bafyother)');
+  });
+});
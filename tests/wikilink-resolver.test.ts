@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { App } from 'obsidian';
+import { TFile } from './__mocks__/obsidian';
+import { Logger } from '../src/utils/logger';
+import { TextProcessor } from '../src/utils/text-processor';
+import { WikilinkResolver } from '../src/utils/wikilink-resolver';
+
+const SPACE = 'space1';
+
+/**
+ * App with just enough vault and metadata cache for link resolution
+ * `frontmatter` maps note paths to their frontmatter; notes with `id` and `space_id` are linked to an object
+ */
+function createApp(frontmatter: Record<string, Record<string, unknown>>, attachments: string[] = []): App {
+  const files = [...Object.keys(frontmatter), ...attachments].map(path => new TFile(path));
+  const byPath = new Map(files.map(file => [file.path, file]));
+
+  return {
+    vault: {
+      getAbstractFileByPath: (path: string) => byPath.get(path) || null,
+      getMarkdownFiles: () => files.filter(file => file.extension === 'md')
+    },
+    metadataCache: {
+      getFirstLinkpathDest: (linkpath: string) => files.find(file =>
+        file.path === linkpath || file.path === `${linkpath}.md` || file.basename === linkpath || file.path.endsWith(`/${linkpath}`)
+      ) || null,
+      getFileCache: (file: TFile) => ({ frontmatter: frontmatter[file.path] })
+    }
+  } as unknown as App;
+}
+
+function createResolver(): WikilinkResolver {
+  const app = createApp({
+    'Note.md': { id: 'obj-note', space_id: SPACE },
+    'Current.md': { id: 'obj-current', space_id: SPACE },
+    'Unlinked.md': {}
+  }, ['assets/image.png']);
+  return new WikilinkResolver(app, new Logger('error'));
+}
+
+const url = (objectId: string) => `anytype://object?objectId=${objectId}&spaceId=${SPACE}`;
+
+describe('WikilinkResolver.convertWikilinksToAnyTypeUrls', () => {
+  it('converts a plain link to a linked note', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('See [[Note]].', SPACE, 'Current.md'))
+      .toBe(`See [Note](${url('obj-note')}).`);
+  });
+
+  it('keeps the display text of aliased links', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('[[Note|the note]]', SPACE, 'Current.md'))
+      .toBe(`[the note](${url('obj-note')})`);
+  });
+
+  it('links [[Note#Heading]] to the note and keeps the heading in the text', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('[[Note#Heading]]', SPACE, 'Current.md'))
+      .toBe(`[Note > Heading](${url('obj-note')})`);
+  });
+
+  it('links [[Note#^block]] to the note and keeps the block id in the text', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('[[Note#^block]]', SPACE, 'Current.md'))
+      .toBe(`[Note > ^block](${url('obj-note')})`);
+  });
+
+  it('treats [[Note^block]] like [[Note#^block]]', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('[[Note^block]]', SPACE, 'Current.md'))
+      .toBe(`[Note > ^block](${url('obj-note')})`);
+  });
+
+  it('keeps same-note links like [[#Heading]] as written', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('[[#Heading]]', SPACE, 'Current.md'))
+      .toBe('[[#Heading]]');
+  });
+
+  it('turns note embeds like ![[Note]] into plain links', () => {
+    expect(createResolver().convertWikilinksToAnyTypeUrls('![[Note]]', SPACE, 'Current.md'))
+      .toBe(`[Note](${url('obj-note')})`);
+  });
+
+  it('keeps attachment embeds like ![[image.png]] as written', () => {
+    const resolver = createResolver();
+    expect(resolver.convertWikilinksToAnyTypeUrls('![[image.png]]', SPACE, 'Current.md')).toBe('![[image.png]]');
+    expect(resolver.convertWikilinksToAnyTypeUrls('![[missing.png]]', SPACE, 'Current.md')).toBe('![[missing.png]]');
+    expect(resolver.drainIssues()).toEqual([]);
+  });
+
+  it('keeps links to notes without an object of the space and reports them', () => {
+    const resolver = createResolver();
+    expect(resolver.convertWikilinksToAnyTypeUrls('[[Unlinked]] [[Missing]]', SPACE, 'Current.md'))
+      .toBe('[[Unlinked]] [[Missing]]');
+    expect(resolver.convertWikilinksToAnyTypeUrls('[[Note]]', 'other-space', 'Current.md')).toBe('[[Note]]');
+    expect(resolver.drainIssues().map(issue => [issue.link, issue.reason])).toEqual([
+      ['Unlinked', 'unlinked'],
+      ['Missing', 'unresolved'],
+      ['Note', 'unlinked']
+    ]);
+  });
+});
+
+describe('link round trip', () => {
+  it('converts links pushed to Anytype back to the wikilinks they came from', () => {
+    const markdown = '[[Note#Heading]] [[Note#^block]] [[#Heading]] ![[image.png]]';
+    const pushed = createResolver().convertWikilinksToAnyTypeUrls(markdown, SPACE, 'Current.md');
+    expect(TextProcessor.convertAnyTypeLinksToWikilinks(pushed)).toBe(markdown);
+  });
+});